@@ -3,27 +3,40 @@ import React from 'react';
 import { cn } from '@/lib/utils';
 import { CheckCircle, AlertTriangle, AlertCircle } from 'lucide-react';
 import { evaluateSafetyStatus, formatNumber } from '@/utils/calculations';
+import { SafetyStatus } from '@/utils/types';
 
 interface CalculationCardProps {
   title: string;
   value: number;
+  valueLabel?: string; // Shown instead of the value when no finite number applies
   unit?: string;
   description?: string;
   isSafetyFactor?: boolean;
   withStatus?: boolean;
   delay?: number;
+  secondaryTitle?: string;
+  secondaryValue?: number;
+  secondaryValueLabel?: string;
+  status?: SafetyStatus; // Explicit status for checks that are not safety factors
+  statusLabel?: string;
 }
 
 const CalculationCard: React.FC<CalculationCardProps> = ({
   title,
   value,
+  valueLabel,
   unit,
   description,
   isSafetyFactor = false,
   withStatus = false,
   delay = 0,
+  secondaryTitle,
+  secondaryValue,
+  secondaryValueLabel,
+  status: checkStatus,
+  statusLabel,
 }) => {
-  let status: 'safe' | 'warning' | 'danger' = 'safe';
+  let status: SafetyStatus = checkStatus ?? 'safe';
   let animationDelay = `animate-delay-${delay}00`;
   
   if (isSafetyFactor) {
@@ -36,6 +49,12 @@ const CalculationCard: React.FC<CalculationCardProps> = ({
     danger: "bg-red-500/20 border-red-500/30 text-red-400"
   };
   
+  const statusTextColors = {
+    safe: "text-green-400",
+    warning: "text-yellow-400",
+    danger: "text-red-400"
+  };
+  
   const statusIcons = {
     safe: <CheckCircle className="w-5 h-5 text-green-400" />,
     warning: <AlertTriangle className="w-5 h-5 text-yellow-400" />,
@@ -53,7 +72,7 @@ const CalculationCard: React.FC<CalculationCardProps> = ({
     >
       <div className="flex justify-between items-start mb-2">
         <h3 className="text-white/80 text-sm font-medium">{title}</h3>
-        {withStatus && isSafetyFactor && (
+        {withStatus && (isSafetyFactor || checkStatus) && (
           <div 
             className={cn(
               "rounded-full flex items-center justify-center",
@@ -66,14 +85,28 @@ const CalculationCard: React.FC<CalculationCardProps> = ({
       </div>
       
       <div className="flex items-baseline">
-        <span className="text-2xl font-semibold text-white">{formatNumber(value)}</span>
-        {unit && <span className="ml-1 text-white/70 text-sm">{unit}</span>}
+        <span className="text-2xl font-semibold text-white">{valueLabel ?? formatNumber(value)}</span>
+        {unit && !valueLabel && <span className="ml-1 text-white/70 text-sm">{unit}</span>}
       </div>
       
       {description && (
         <p className="mt-1 text-xs text-white/60">{description}</p>
       )}
       
+      {secondaryValue !== undefined && (
+        <div className="mt-3 pt-3 border-t border-white/10 flex justify-between items-baseline">
+          <span className="text-white/70 text-xs">{secondaryTitle}</span>
+          <span 
+            className={cn(
+              "text-sm font-semibold",
+              isSafetyFactor ? statusTextColors[evaluateSafetyStatus(secondaryValue)] : "text-white"
+            )}
+          >
+            {secondaryValueLabel ?? formatNumber(secondaryValue)}
+          </span>
+        </div>
+      )}
+      
       {isSafetyFactor && (
         <div 
           className={cn(
@@ -86,6 +119,17 @@ const CalculationCard: React.FC<CalculationCardProps> = ({
           {status === 'danger' && 'Unsafe (< 1.0)'}
         </div>
       )}
+      
+      {checkStatus && !isSafetyFactor && statusLabel && (
+        <div 
+          className={cn(
+            "mt-3 py-1 px-3 rounded-md text-xs font-medium",
+            statusColors[status]
+          )}
+        >
+          {statusLabel}
+        </div>
+      )}
     </div>
   );
 };
@@ -44,8 +44,8 @@ const CalculationSteps: React.FC<CalculationStepsProps> = ({ steps }) => {
               
               <div className="flex items-center">
                 <div className="mr-3 text-white/90 text-right">
-                  <span className="font-medium">{formatNumber(step.value)}</span>
-                  {step.unit && <span className="ml-1 text-white/70">{step.unit}</span>}
+                  <span className="font-medium">{step.valueLabel ?? formatNumber(step.value)}</span>
+                  {step.unit && !step.valueLabel && <span className="ml-1 text-white/70">{step.unit}</span>}
                 </div>
                 {expandedSteps[index] ? (
                   <ChevronUp className="h-5 w-5 text-white/70" />
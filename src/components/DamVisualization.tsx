@@ -1,19 +1,30 @@
 
 import React from 'react';
-import { DamInputs, StructureType } from '@/utils/types';
+import { DamInputs, StructureType, UpliftProfilePoint } from '@/utils/types';
 
 interface DamVisualizationProps {
   inputs: DamInputs;
   locationOfRy?: number;
+  upliftProfile?: UpliftProfilePoint[]; // Profile set by the seepage model or the weir floor, replacing the readings
 }
 
-const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfRy }) => {
-  const { structureType, baseWidth, height, waterLevel, crestWidth, unitSystem } = inputs;
+const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfRy, upliftProfile: modelProfile }) => {
+  const { structureType, baseWidth, height, waterLevel, crestWidth, unitSystem, iceLoad = 0, iceDepth = 0 } = inputs;
+  
+  // Uplift profile the engine used: the modelled one, or the piezometer readings within the base,
+  // sorted from the heel (a profile needs at least two)
+  const profilePoints = (modelProfile ?? inputs.upliftProfile ?? [])
+    .filter(point => point.distance >= 0 && point.distance <= baseWidth)
+    .sort((a, b) => a.distance - b.distance);
+  const upliftProfile = profilePoints.length >= 2 ? profilePoints : undefined;
+  
+  // Extra room below the base for the uplift profile
+  const profileDepth = upliftProfile ? 40 : 0;
   
   // Calculate canvas dimensions and scaling
   const canvasWidth = 320;
-  const canvasHeight = 240;
-  const maxDimension = Math.max(baseWidth, height);
+  const canvasHeight = 240 + profileDepth;
+  const maxDimension = Math.max(baseWidth, height, waterLevel);
   const scaleFactor = Math.min(200 / maxDimension, 15); // Limit scale for very large dams
   
   // Scale dimensions for drawing
@@ -26,37 +37,175 @@ const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfR
   const xOffset = (canvasWidth - scaledBaseWidth) / 2;
   
   // Y-position of ground level
-  const groundY = canvasHeight - 40;
+  const groundY = canvasHeight - 40 - profileDepth;
   
-  // Calculate center of gravity X position (from heel)
-  const getCenterOfGravityX = () => {
+  // Calculate the upstream face X position (from heel) at a given height, matching the drawn shape
+  // The triangle has a vertical upstream face, as in the stability engine
+  const getUpstreamFaceX = (y: number) => {
     switch (structureType) {
       case 'rectangle':
-        return baseWidth / 2;
       case 'triangle':
-        return baseWidth / 3;
+        return 0;
       case 'trapezoid':
-        if (!crestWidth) return baseWidth / 2;
-        return (baseWidth + (2 * crestWidth)) / (3 * (baseWidth + crestWidth)) * baseWidth;
+        return ((baseWidth - (crestWidth ?? 0)) / 2) * y / height;
     }
   };
   
+  // Horizontal projections of the drawn faces
+  const upstreamProjection = getUpstreamFaceX(height);
+  const crestLength = structureType === 'rectangle' ? baseWidth : structureType === 'trapezoid' ? crestWidth ?? 0 : 0;
+  const downstreamProjection = baseWidth - upstreamProjection - crestLength;
+  
+  // Calculate center of gravity X position (from heel) from the face projections, as in the stability engine
+  const getCenterOfGravityX = () => {
+    return (baseWidth * baseWidth - baseWidth * downstreamProjection 
+      + (downstreamProjection * downstreamProjection - upstreamProjection * upstreamProjection) / 3) 
+      / (baseWidth + crestLength);
+  };
+  
   // Calculate center of gravity Y position (from base)
   const getCenterOfGravityY = () => {
-    switch (structureType) {
-      case 'rectangle':
-        return height / 2;
-      case 'triangle':
-        return height / 3;
-      case 'trapezoid':
-        if (!crestWidth) return height / 2;
-        return height / 3;
-    }
+    return height / 3 * (2 * crestLength + baseWidth) / (crestLength + baseWidth);
   };
   
+  // Location of Ry is measured from the moment reference point
+  const locationOfRyFromHeel = locationOfRy && inputs.momentReference === 'toe' 
+    ? baseWidth - locationOfRy 
+    : locationOfRy;
+  
   const centerOfGravityX = getCenterOfGravityX();
   const centerOfGravityY = getCenterOfGravityY();
   
+  // Render the overflow on the crest when the pool is above it
+  // The nappe is the uniform layer at critical depth (2/3 of the head) that loads the crest
+  const renderNappe = () => {
+    const overtoppingDepth = waterLevel - height;
+    if (overtoppingDepth <= 0) return null;
+    
+    // A closed crest gate holds back the pool, so no nappe is loaded
+    if (inputs.gateType && (inputs.gateHeight ?? 0) > 0) return null;
+    
+    const crestStartX = getUpstreamFaceX(height);
+    const crestEndX = crestStartX + crestLength;
+    if (crestEndX <= crestStartX) return null;
+    
+    const crestY = groundY - scaledHeight;
+    const nappeDepth = (2 / 3) * overtoppingDepth * scaleFactor;
+    const startX = xOffset + (crestStartX * scaleFactor);
+    const endX = xOffset + (crestEndX * scaleFactor);
+    const pathD = [
+      `M${startX},${crestY}`,
+      `L${startX},${crestY - nappeDepth}`,
+      `L${endX},${crestY - nappeDepth}`,
+      `L${endX},${crestY}`
+    ].join(' ') + ' Z';
+    
+    return (
+      <path
+        d={pathD}
+        fill="rgba(59, 130, 246, 0.5)"
+      />
+    );
+  };
+  
+  // Render the uplift profile hanging below the base
+  // Heads are drawn to their own scale so the largest reading fills the space under the base
+  const renderUpliftProfile = () => {
+    if (!upliftProfile) return null;
+    
+    const maxHead = Math.max(...upliftProfile.map(point => point.head));
+    if (maxHead <= 0) return null;
+    
+    const headScale = (profileDepth - 10) / maxHead;
+    const first = upliftProfile[0];
+    const last = upliftProfile[upliftProfile.length - 1];
+    const points = [
+      { distance: 0, head: first.head },
+      ...upliftProfile,
+      { distance: baseWidth, head: last.head }
+    ];
+    
+    const pathD = [
+      `M${xOffset},${groundY}`,
+      ...points.map(point => `L${xOffset + (point.distance * scaleFactor)},${groundY + (point.head * headScale)}`),
+      `L${xOffset + scaledBaseWidth},${groundY}`
+    ].join(' ') + ' Z';
+    
+    return (
+      <g>
+        <path
+          d={pathD}
+          fill="rgba(59, 130, 246, 0.3)"
+          stroke="#3b82f6"
+          strokeWidth={1}
+        />
+        {upliftProfile.map((point, index) => (
+          <circle
+            key={index}
+            cx={xOffset + (point.distance * scaleFactor)}
+            cy={groundY + (point.head * headScale)}
+            r={2}
+            fill="#3b82f6"
+          />
+        ))}
+        <text
+          x={xOffset - 4}
+          y={groundY + 12}
+          textAnchor="end"
+          fill="#3b82f6"
+          fontSize="9"
+          className="font-medium"
+        >
+          Uplift
+        </text>
+      </g>
+    );
+  };
+  
+  // Render the ice thrust arrow pointing at the upstream face
+  const renderIceLoad = () => {
+    if (iceLoad <= 0) return null;
+    
+    const iceHeight = Math.max(waterLevel - iceDepth, 0);
+    const arrowY = groundY - (iceHeight * scaleFactor);
+    const arrowTipX = xOffset + (getUpstreamFaceX(iceHeight) * scaleFactor);
+    
+    return (
+      <g>
+        <defs>
+          <marker
+            id="ice-arrowhead"
+            markerWidth={6}
+            markerHeight={6}
+            refX={5}
+            refY={3}
+            orient="auto"
+          >
+            <path d="M0,0 L6,3 L0,6 Z" fill="#67e8f9" />
+          </marker>
+        </defs>
+        <line
+          x1={arrowTipX - 40}
+          y1={arrowY}
+          x2={arrowTipX - 2}
+          y2={arrowY}
+          stroke="#67e8f9"
+          strokeWidth={2}
+          markerEnd="url(#ice-arrowhead)"
+        />
+        <text
+          x={arrowTipX - 40}
+          y={arrowY - 4}
+          fill="#67e8f9"
+          fontSize="9"
+          className="font-medium"
+        >
+          Ice
+        </text>
+      </g>
+    );
+  };
+  
   // Draw dam shape based on structure type
   const renderDamShape = () => {
     // Points array for the dam shape
@@ -75,7 +224,7 @@ const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfR
       case 'triangle':
         points = [
           { x: xOffset, y: groundY },
-          { x: xOffset + scaledBaseWidth, y: groundY - scaledHeight },
+          { x: xOffset, y: groundY - scaledHeight },
           { x: xOffset + scaledBaseWidth, y: groundY }
         ];
         break;
@@ -142,7 +291,7 @@ const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfR
         {/* Center of pressure indicator for Ry location */}
         {locationOfRy && (
           <circle
-            cx={xOffset + (locationOfRy * scaleFactor)}
+            cx={xOffset + (locationOfRyFromHeel * scaleFactor)}
             cy={groundY}
             r={4}
             fill="#ef4444"
@@ -161,32 +310,32 @@ const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfR
         {/* Base width dimension */}
         <line 
           x1={xOffset} 
-          y1={groundY + 15} 
+          y1={groundY + profileDepth + 15} 
           x2={xOffset + scaledBaseWidth} 
-          y2={groundY + 15} 
+          y2={groundY + profileDepth + 15} 
           stroke="#475569" 
           strokeWidth={1} 
           strokeDasharray="4,2"
         />
         <line 
           x1={xOffset} 
-          y1={groundY + 10} 
+          y1={groundY + profileDepth + 10} 
           x2={xOffset} 
-          y2={groundY + 20} 
+          y2={groundY + profileDepth + 20} 
           stroke="#475569" 
           strokeWidth={1} 
         />
         <line 
           x1={xOffset + scaledBaseWidth} 
-          y1={groundY + 10} 
+          y1={groundY + profileDepth + 10} 
           x2={xOffset + scaledBaseWidth} 
-          y2={groundY + 20} 
+          y2={groundY + profileDepth + 20} 
           stroke="#475569" 
           strokeWidth={1} 
         />
         <text 
           x={xOffset + (scaledBaseWidth / 2)} 
-          y={groundY + 30} 
+          y={groundY + profileDepth + 30} 
           textAnchor="middle" 
           fill="#475569" 
           fontSize="10"
@@ -329,6 +478,9 @@ const DamVisualization: React.FC<DamVisualizationProps> = ({ inputs, locationOfR
         className="mx-auto"
       >
         {renderDamShape()}
+        {renderUpliftProfile()}
+        {renderNappe()}
+        {renderIceLoad()}
         {renderDimensions()}
       </svg>
     </div>
@@ -0,0 +1,82 @@
+import React from 'react';
+import { FiniteElementResults } from '@/utils/types';
+import { formatNumber } from '@/utils/calculations';
+
+interface FiniteElementPlotProps {
+  results: FiniteElementResults;
+  unitSystem: 'metric' | 'imperial';
+}
+
+const FiniteElementPlot: React.FC<FiniteElementPlotProps> = ({ results, unitSystem }) => {
+  const { nodes, elements } = results;
+  const stressUnit = unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²';
+  
+  // Calculate canvas dimensions and scaling from the extent of the mesh
+  const canvasWidth = 320;
+  const canvasHeight = 240;
+  const margin = 20;
+  const minX = Math.min(...nodes.map(node => node.x));
+  const maxX = Math.max(...nodes.map(node => node.x));
+  const minY = Math.min(...nodes.map(node => node.y));
+  const maxY = Math.max(...nodes.map(node => node.y));
+  const scaleFactor = Math.min(
+    (canvasWidth - 2 * margin) / (maxX - minX),
+    (canvasHeight - 2 * margin - 20) / (maxY - minY)
+  );
+  const xOffset = (canvasWidth - (maxX - minX) * scaleFactor) / 2;
+  
+  const toScreen = (x: number, y: number): string =>
+    `${xOffset + (x - minX) * scaleFactor},${canvasHeight - margin - 20 - (y - minY) * scaleFactor}`;
+  
+  // Colour each element by its vertical stress: blue in compression, red in tension
+  const maxCompression = Math.max(...elements.map(element => element.stressY), 0);
+  const maxTension = Math.max(...elements.map(element => -element.stressY), 0);
+  
+  const getStressColor = (stress: number): string => {
+    if (stress >= 0) {
+      const intensity = maxCompression > 0 ? stress / maxCompression : 0;
+      return `hsl(210, 80%, ${85 - intensity * 45}%)`;
+    }
+    const intensity = maxTension > 0 ? -stress / maxTension : 0;
+    return `hsl(0, 80%, ${85 - intensity * 35}%)`;
+  };
+  
+  return (
+    <div className="bg-white/5 backdrop-blur-sm rounded-xl p-4 border border-white/10">
+      <h3 className="text-white font-medium mb-3 text-center">Vertical Stress (Finite Element)</h3>
+      <svg
+        width={canvasWidth}
+        height={canvasHeight}
+        viewBox={`0 0 ${canvasWidth} ${canvasHeight}`}
+        className="mx-auto"
+      >
+        {elements.map((element, index) => (
+          <polygon
+            key={index}
+            points={element.nodes.map(node => toScreen(nodes[node].x, nodes[node].y)).join(' ')}
+            fill={getStressColor(element.stressY)}
+            fillOpacity={element.material === 'foundation' ? 0.5 : 1}
+            stroke="rgba(0, 0, 0, 0.15)"
+            strokeWidth="0.5"
+          />
+        ))}
+        
+        {/* Legend */}
+        <rect x={margin} y={canvasHeight - 18} width="10" height="10" fill={getStressColor(maxCompression)} />
+        <text x={margin + 14} y={canvasHeight - 9} fill="white" fontSize="10">
+          {formatNumber(maxCompression)} {stressUnit} compression
+        </text>
+        {maxTension > 0 && (
+          <>
+            <rect x={canvasWidth / 2 + 10} y={canvasHeight - 18} width="10" height="10" fill={getStressColor(-maxTension)} />
+            <text x={canvasWidth / 2 + 24} y={canvasHeight - 9} fill="white" fontSize="10">
+              {formatNumber(maxTension)} {stressUnit} tension
+            </text>
+          </>
+        )}
+      </svg>
+    </div>
+  );
+};
+
+export default FiniteElementPlot;
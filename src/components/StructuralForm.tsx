@@ -21,7 +21,7 @@ const StructuralForm: React.FC<StructuralFormProps> = ({ selected, onChange }) =
       type: 'triangle' as StructureType,
       label: 'Triangle',
       icon: Triangle,
-      description: 'Triangular profile'
+      description: 'Vertical upstream face'
     },
     {
       type: 'trapezoid' as StructureType,
@@ -4,9 +4,10 @@ import { useNavigate } from 'react-router-dom';
 import NavBar from '@/components/NavBar';
 import InputField from '@/components/InputField';
 import StructuralForm from '@/components/StructuralForm';
-import { DamInputs, StructureType, WaterDensityUnit } from '@/utils/types';
+import { AnchorRow, CustomLoad, CustomLoadType, DamInputs, GateType, FiniteElementInputs, MomentReference, SeepageInputs, SheetPile, SlidingWedge, StructureType, UpliftProfilePoint, WaterDensityUnit, WedgeAnalysisInputs, WeirFoundationInputs, WeirSoilClass } from '@/utils/types';
 import { calculateDamStability, convertWaterDensity, getDefaultWaterDensity } from '@/utils/calculations';
 import { toast } from 'sonner';
+import { Plus, Trash2 } from 'lucide-react';
 import {
   Select,
   SelectContent,
@@ -40,7 +41,9 @@ const Calculator = () => {
     frictionCoefficient: 0.7, // Default value
     heelUplift: 0,
     toeUplift: 0,
+    tailwaterLevel: 0,
     unitSystem: 'metric',
+    momentReference: 'heel',
     solveFor: 'none',
     needsFrictionCalculation: true
   });
@@ -117,6 +120,334 @@ const Calculator = () => {
     }
   };
   
+  const handleWedgeAnalysisToggle = (checked: boolean) => {
+    setInputs(prev => ({
+      ...prev,
+      wedgeAnalysis: checked 
+        ? {
+            seamDepth: 0,
+            rockUnitWeight: unitSystem === 'metric' ? 26 : 165,
+            drivingWedge: { angle: 0, cohesion: 0, frictionAngle: 30 },
+            resistingWedges: [{ angle: 30, length: 0, cohesion: 0, frictionAngle: 35 }]
+          } 
+        : undefined
+    }));
+  };
+  
+  const handleWedgeAnalysisChange = (field: 'seamDepth' | 'rockUnitWeight', value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => prev.wedgeAnalysis 
+      ? { ...prev, wedgeAnalysis: { ...prev.wedgeAnalysis, [field]: numValue } } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [field]: '' }));
+  };
+  
+  const handleWedgeChange = (index: number | 'driving', field: keyof SlidingWedge, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => {
+      if (!prev.wedgeAnalysis) return prev;
+      
+      const wedgeAnalysis: WedgeAnalysisInputs = index === 'driving' 
+        ? { ...prev.wedgeAnalysis, drivingWedge: { ...prev.wedgeAnalysis.drivingWedge, [field]: numValue } } 
+        : {
+            ...prev.wedgeAnalysis,
+            resistingWedges: prev.wedgeAnalysis.resistingWedges.map((wedge, i) => 
+              i === index ? { ...wedge, [field]: numValue } : wedge
+            )
+          };
+      return { ...prev, wedgeAnalysis };
+    });
+    setErrors(prev => ({ ...prev, [`wedge-${index}`]: '' }));
+  };
+  
+  const handleAddResistingWedge = () => {
+    setInputs(prev => prev.wedgeAnalysis 
+      ? {
+          ...prev,
+          wedgeAnalysis: {
+            ...prev.wedgeAnalysis,
+            resistingWedges: [...prev.wedgeAnalysis.resistingWedges, { angle: 30, length: 0, cohesion: 0, frictionAngle: 35 }]
+          }
+        } 
+      : prev
+    );
+  };
+  
+  const handleRemoveResistingWedge = (index: number) => {
+    setInputs(prev => prev.wedgeAnalysis 
+      ? {
+          ...prev,
+          wedgeAnalysis: {
+            ...prev.wedgeAnalysis,
+            resistingWedges: prev.wedgeAnalysis.resistingWedges.filter((_, i) => i !== index)
+          }
+        } 
+      : prev
+    );
+  };
+  
+  const handleFiniteElementToggle = (checked: boolean) => {
+    setInputs(prev => ({
+      ...prev,
+      finiteElement: checked 
+        ? { elasticModulus: unitSystem === 'metric' ? 25 : 3600, poissonRatio: 0.2, divisions: 10 } 
+        : undefined
+    }));
+  };
+  
+  const handleFiniteElementChange = (field: keyof FiniteElementInputs, value: string) => {
+    const numValue = value === '' ? undefined : parseFloat(value);
+    if (numValue !== undefined && isNaN(numValue)) return;
+    
+    setInputs(prev => prev.finiteElement 
+      ? { ...prev, finiteElement: { ...prev.finiteElement, [field]: numValue } } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [field]: '' }));
+  };
+  
+  const handleAddLiftJoint = () => {
+    setInputs(prev => ({
+      ...prev,
+      liftJointElevations: [...(prev.liftJointElevations ?? []), 0]
+    }));
+  };
+  
+  const handleRemoveLiftJoint = (index: number) => {
+    setInputs(prev => ({
+      ...prev,
+      liftJointElevations: (prev.liftJointElevations ?? []).filter((_, i) => i !== index)
+    }));
+  };
+  
+  const handleLiftJointChange = (index: number, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => ({
+      ...prev,
+      liftJointElevations: (prev.liftJointElevations ?? []).map((elevation, i) => 
+        i === index ? numValue : elevation
+      )
+    }));
+    setErrors(prev => ({ ...prev, [`liftJoint-${index}`]: '' }));
+  };
+  
+  const handleSeepageToggle = (checked: boolean) => {
+    setInputs(prev => ({
+      ...prev,
+      seepage: checked 
+        ? { foundationDepth: prev.baseWidth || 10, permeability: unitSystem === 'metric' ? 1e-6 : 3e-6 } 
+        : undefined,
+      weirFoundation: checked ? undefined : prev.weirFoundation
+    }));
+  };
+  
+  const handleSeepageChange = (field: Exclude<keyof SeepageInputs, 'drainPositions'>, value: string) => {
+    const numValue = value === '' ? undefined : parseFloat(value);
+    if (numValue !== undefined && isNaN(numValue)) return;
+    
+    setInputs(prev => prev.seepage 
+      ? { ...prev, seepage: { ...prev.seepage, [field]: numValue } } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [`seepage-${field}`]: '' }));
+  };
+  
+  const handleAddSeepageDrain = () => {
+    setInputs(prev => prev.seepage 
+      ? { ...prev, seepage: { ...prev.seepage, drainPositions: [...(prev.seepage.drainPositions ?? []), 0] } } 
+      : prev
+    );
+  };
+  
+  const handleRemoveSeepageDrain = (index: number) => {
+    setInputs(prev => prev.seepage 
+      ? {
+          ...prev,
+          seepage: { ...prev.seepage, drainPositions: (prev.seepage.drainPositions ?? []).filter((_, i) => i !== index) }
+        } 
+      : prev
+    );
+  };
+  
+  const handleSeepageDrainChange = (index: number, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => prev.seepage 
+      ? {
+          ...prev,
+          seepage: {
+            ...prev.seepage,
+            drainPositions: (prev.seepage.drainPositions ?? []).map((position, i) => i === index ? numValue : position)
+          }
+        } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [`seepageDrain-${index}`]: '' }));
+  };
+  
+  const handleWeirFoundationToggle = (checked: boolean) => {
+    setInputs(prev => ({
+      ...prev,
+      weirFoundation: checked 
+        ? {
+            upstreamFloorLength: 0,
+            downstreamFloorLength: 0,
+            sheetPiles: [{ position: 0, depth: 2 }, { position: prev.baseWidth || 10, depth: 2 }],
+            soilClass: 'coarseSand'
+          } 
+        : undefined,
+      seepage: checked ? undefined : prev.seepage
+    }));
+  };
+  
+  const handleWeirFoundationChange = (field: Exclude<keyof WeirFoundationInputs, 'sheetPiles' | 'soilClass'>, value: string) => {
+    const numValue = value === '' ? undefined : parseFloat(value);
+    if (numValue !== undefined && isNaN(numValue)) return;
+    
+    setInputs(prev => prev.weirFoundation 
+      ? { ...prev, weirFoundation: { ...prev.weirFoundation, [field]: field === 'floorThickness' ? numValue : numValue ?? 0 } } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [`weir-${field}`]: '' }));
+  };
+  
+  const handleWeirSoilClassChange = (value: WeirSoilClass) => {
+    setInputs(prev => prev.weirFoundation 
+      ? { ...prev, weirFoundation: { ...prev.weirFoundation, soilClass: value } } 
+      : prev
+    );
+  };
+  
+  const handleAddSheetPile = () => {
+    setInputs(prev => prev.weirFoundation 
+      ? {
+          ...prev,
+          weirFoundation: { ...prev.weirFoundation, sheetPiles: [...prev.weirFoundation.sheetPiles, { position: 0, depth: 0 }] }
+        } 
+      : prev
+    );
+  };
+  
+  const handleRemoveSheetPile = (index: number) => {
+    setInputs(prev => prev.weirFoundation 
+      ? {
+          ...prev,
+          weirFoundation: { ...prev.weirFoundation, sheetPiles: prev.weirFoundation.sheetPiles.filter((_, i) => i !== index) }
+        } 
+      : prev
+    );
+  };
+  
+  const handleSheetPileChange = (index: number, field: keyof SheetPile, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => prev.weirFoundation 
+      ? {
+          ...prev,
+          weirFoundation: {
+            ...prev.weirFoundation,
+            sheetPiles: prev.weirFoundation.sheetPiles.map((pile, i) => i === index ? { ...pile, [field]: numValue } : pile)
+          }
+        } 
+      : prev
+    );
+    setErrors(prev => ({ ...prev, [`sheetPile-${index}`]: '' }));
+  };
+  
+  const handleAddProfilePoint = () => {
+    setInputs(prev => ({
+      ...prev,
+      upliftProfile: [...(prev.upliftProfile ?? []), { distance: 0, head: 0 }]
+    }));
+  };
+  
+  const handleRemoveProfilePoint = (index: number) => {
+    setInputs(prev => ({
+      ...prev,
+      upliftProfile: (prev.upliftProfile ?? []).filter((_, i) => i !== index)
+    }));
+  };
+  
+  const handleProfilePointChange = (index: number, field: keyof UpliftProfilePoint, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => ({
+      ...prev,
+      upliftProfile: (prev.upliftProfile ?? []).map((point, i) => 
+        i === index ? { ...point, [field]: numValue } : point
+      )
+    }));
+    setErrors(prev => ({ ...prev, [`upliftProfile-${index}`]: '', upliftProfile: '' }));
+  };
+  
+  const handleAddAnchor = () => {
+    setInputs(prev => ({
+      ...prev,
+      anchors: [...(prev.anchors ?? []), { force: 0, inclination: 0, position: 0 }]
+    }));
+  };
+  
+  const handleRemoveAnchor = (index: number) => {
+    setInputs(prev => ({
+      ...prev,
+      anchors: (prev.anchors ?? []).filter((_, i) => i !== index)
+    }));
+  };
+  
+  const handleAnchorChange = (index: number, field: keyof AnchorRow, value: string) => {
+    const numValue = value === '' ? 0 : parseFloat(value);
+    if (isNaN(numValue)) return;
+    
+    setInputs(prev => ({
+      ...prev,
+      anchors: (prev.anchors ?? []).map((anchor, i) => 
+        i === index ? { ...anchor, [field]: numValue } : anchor
+      )
+    }));
+    setErrors(prev => ({ ...prev, [`anchor-${index}`]: '' }));
+  };
+  
+  const handleAddCustomLoad = () => {
+    setInputs(prev => ({
+      ...prev,
+      customLoads: [...(prev.customLoads ?? []), { label: '', type: 'point', magnitude: 0, angle: 0, x: 0, y: 0 }]
+    }));
+  };
+  
+  const handleRemoveCustomLoad = (index: number) => {
+    setInputs(prev => ({
+      ...prev,
+      customLoads: (prev.customLoads ?? []).filter((_, i) => i !== index)
+    }));
+  };
+  
+  const handleCustomLoadChange = (index: number, field: keyof CustomLoad, value: string) => {
+    let fieldValue: string | number = value;
+    
+    if (field !== 'label' && field !== 'type') {
+      fieldValue = value === '' ? 0 : parseFloat(value);
+      if (isNaN(fieldValue)) return;
+    }
+    
+    setInputs(prev => ({
+      ...prev,
+      customLoads: (prev.customLoads ?? []).map((load, i) => 
+        i === index ? { ...load, [field]: fieldValue } : load
+      )
+    }));
+    setErrors(prev => ({ ...prev, [`customLoad-${index}`]: '' }));
+  };
+  
   const handleSolveForChange = (value: string) => {
     setInputs(prev => ({ 
       ...prev, 
@@ -124,6 +455,9 @@ const Calculator = () => {
     }));
   };
   
+  // The seepage model and the weir floor set the uplift themselves, so the piezometer readings are not used
+  const upliftFromModel = !!inputs.seepage || !!inputs.weirFoundation;
+  
   const validateInputs = (): boolean => {
     const newErrors: Record<string, string> = {};
     const requiredFields = ['baseWidth', 'height', 'waterLevel', 'concreteDensity', 'waterDensity'];
@@ -171,9 +505,231 @@ const Calculator = () => {
       }
     });
     
-    // Validate water level is less than or equal to height
-    if (inputs.waterLevel && inputs.height && inputs.waterLevel > inputs.height && inputs.solveFor !== 'waterLevel') {
-      newErrors.waterLevel = 'Water level cannot exceed dam height';
+    // Silt needs a unit weight and a way to get the pressure coefficient
+    if (inputs.siltDepth) {
+      if (inputs.siltUnitWeight === undefined) {
+        newErrors.siltUnitWeight = 'Silt unit weight is required when silt depth is given';
+      }
+      if (inputs.siltFrictionAngle === undefined && inputs.siltPressureCoefficient === undefined) {
+        newErrors.siltDepth = 'Enter a silt friction angle or a Rankine coefficient';
+      }
+      if (inputs.height && inputs.siltDepth > inputs.height) {
+        newErrors.siltDepth = 'Silt depth cannot exceed dam height';
+      }
+    }
+    
+    // Shear-friction needs a friction angle once cohesion is given
+    if (inputs.cohesion && inputs.foundationFrictionAngle === undefined) {
+      newErrors.foundationFrictionAngle = 'Friction angle is required when cohesion is given';
+    }
+    if (inputs.foundationInclination !== undefined && Math.abs(inputs.foundationInclination) >= 45) {
+      newErrors.foundationInclination = 'Foundation inclination must be between -45° and 45°';
+    }
+    if (inputs.contactLength && inputs.baseWidth && inputs.contactLength > inputs.baseWidth) {
+      newErrors.contactLength = 'Compressed length cannot exceed base width';
+    }
+    
+    // Piezometer readings must lie within the base and describe a profile
+    const upliftProfile = upliftFromModel ? [] : inputs.upliftProfile ?? [];
+    upliftProfile.forEach((point, index) => {
+      if (inputs.baseWidth && (point.distance < 0 || point.distance > inputs.baseWidth)) {
+        newErrors[`upliftProfile-${index}`] = 'Reading must lie within the base width';
+      } else if (point.head < 0) {
+        newErrors[`upliftProfile-${index}`] = 'Pressure head cannot be negative';
+      }
+    });
+    if (upliftProfile.length === 1) {
+      newErrors.upliftProfile = 'Enter at least two readings to define a profile';
+    }
+    
+    // Anchors must cross the base
+    (inputs.anchors ?? []).forEach((anchor, index) => {
+      if (inputs.baseWidth && (anchor.position < 0 || anchor.position > inputs.baseWidth)) {
+        newErrors[`anchor-${index}`] = 'Anchor position must lie within the base width';
+      }
+    });
+    
+    // Custom loads must act on the section
+    (inputs.customLoads ?? []).forEach((load, index) => {
+      const points = load.type === 'distributed' 
+        ? [[load.x, load.y], [load.endX ?? load.x, load.endY ?? load.y]] 
+        : [[load.x, load.y]];
+      
+      if (points.some(([x, y]) => x < 0 || y < 0 || (inputs.baseWidth && x > inputs.baseWidth) || (inputs.height && y > inputs.height))) {
+        newErrors[`customLoad-${index}`] = 'Load must be applied within the dam section';
+      }
+    });
+    
+    // Drains must lie within the base and have a valid efficiency
+    if (inputs.drainDistance && inputs.baseWidth && inputs.drainDistance >= inputs.baseWidth) {
+      newErrors.drainDistance = 'Drain line must lie within the base width';
+    }
+    if (inputs.drainEfficiency !== undefined && (inputs.drainEfficiency < 0 || inputs.drainEfficiency > 100)) {
+      newErrors.drainEfficiency = 'Drain efficiency must be between 0 and 100%';
+    }
+    
+    // Wave loading needs both fetch and wind speed
+    if (inputs.fetchLength && !inputs.windSpeed) {
+      newErrors.windSpeed = 'Wind speed is required when fetch length is given';
+    }
+    if (inputs.windSpeed && !inputs.fetchLength) {
+      newErrors.fetchLength = 'Fetch length is required when wind speed is given';
+    }
+    
+    // Ice must act within the reservoir
+    if (inputs.iceLoad && inputs.iceDepth && inputs.waterLevel && inputs.iceDepth > inputs.waterLevel) {
+      newErrors.iceDepth = 'Ice depth cannot exceed water level';
+    }
+    
+    // Ice and waves act at the pool surface, which has no face to bear on once an ungated dam is overtopped
+    // A crest gate holds the normal pool above the crest, so those cases stay open
+    const hasCrestGate = !!inputs.gateType && !!inputs.gateHeight;
+    if (!hasCrestGate && inputs.waterLevel && inputs.height && inputs.waterLevel > inputs.height) {
+      if (inputs.iceLoad && inputs.waterLevel - (inputs.iceDepth ?? 0) > inputs.height) {
+        newErrors.iceDepth = 'Ice must act on the face at or below the crest';
+      }
+      if (inputs.fetchLength && inputs.windSpeed) {
+        newErrors.fetchLength = 'Wind waves are not combined with an overtopping flood';
+      }
+    }
+    
+    // A radial gate's skin plate must reach from the sill to the top of the leaf
+    if (inputs.gateType === 'radial' && inputs.gateHeight) {
+      const sillElevation = inputs.gateSillElevation ?? inputs.height ?? 0;
+      const sillOffset = Math.abs((inputs.trunnionElevation ?? 0) - sillElevation);
+      const topOffset = Math.abs((inputs.trunnionElevation ?? 0) - sillElevation - inputs.gateHeight);
+      if (!inputs.gateRadius || inputs.gateRadius < Math.max(sillOffset, topOffset)) {
+        newErrors.gateRadius = 'Gate radius must reach the sill and the top of the gate from the trunnion';
+      }
+    }
+    if (inputs.gateType === 'radial' && inputs.trunnionDistance && inputs.baseWidth && inputs.trunnionDistance > inputs.baseWidth) {
+      newErrors.trunnionDistance = 'Trunnion must lie over the base';
+    }
+    
+    // The gate sits on the crest, whose face already carries the pool below it,
+    // and its load is spread over the monolith carrying its bay
+    if (inputs.gateType && inputs.gateHeight) {
+      if (inputs.gateSillElevation !== undefined && inputs.height && inputs.gateSillElevation < inputs.height) {
+        newErrors.gateSillElevation = 'Gate sill must be at or above the crest';
+      }
+      if (!inputs.gateBayWidth || inputs.gateBayWidth <= 0) {
+        newErrors.gateBayWidth = 'Gate bay width is required when a gate is defined';
+      }
+      if (!inputs.monolithWidth || inputs.monolithWidth <= 0) {
+        newErrors.monolithWidth = 'Monolith width is required when a gate is defined';
+      } else if (inputs.gateBayWidth && inputs.monolithWidth < inputs.gateBayWidth) {
+        newErrors.monolithWidth = 'Monolith width cannot be less than the gate bay width';
+      }
+    }
+    
+    // The seepage model needs a pervious layer and features that lie under the base
+    if (inputs.seepage) {
+      const { foundationDepth, permeability, anisotropyRatio, cutoffDepth, cutoffPosition, drainPositions = [] } = inputs.seepage;
+      
+      if (!foundationDepth || foundationDepth <= 0) {
+        newErrors['seepage-foundationDepth'] = 'Foundation depth must be greater than zero';
+      }
+      if (!permeability || permeability <= 0) {
+        newErrors['seepage-permeability'] = 'Permeability must be greater than zero';
+      }
+      if (anisotropyRatio !== undefined && anisotropyRatio <= 0) {
+        newErrors['seepage-anisotropyRatio'] = 'Anisotropy ratio must be greater than zero';
+      }
+      if (cutoffDepth !== undefined && foundationDepth && (cutoffDepth < 0 || cutoffDepth >= foundationDepth)) {
+        newErrors['seepage-cutoffDepth'] = 'Cutoff must end above the bottom of the pervious layer';
+      }
+      if (cutoffPosition !== undefined && inputs.baseWidth !== undefined && (cutoffPosition < 0 || cutoffPosition > inputs.baseWidth)) {
+        newErrors['seepage-cutoffPosition'] = 'Cutoff must lie within the base width';
+      }
+      drainPositions.forEach((position, index) => {
+        if (position <= 0 || (inputs.baseWidth !== undefined && position >= inputs.baseWidth)) {
+          newErrors[`seepageDrain-${index}`] = 'Drain must lie between the heel and the toe';
+        }
+      });
+    }
+    
+    // Weir floors need a positive length and sheet piles that lie under the floor
+    if (inputs.weirFoundation) {
+      const { upstreamFloorLength, downstreamFloorLength, floorThickness, sheetPiles } = inputs.weirFoundation;
+      
+      if (upstreamFloorLength < 0) {
+        newErrors['weir-upstreamFloorLength'] = 'Floor length cannot be negative';
+      }
+      if (downstreamFloorLength < 0) {
+        newErrors['weir-downstreamFloorLength'] = 'Floor length cannot be negative';
+      }
+      if (floorThickness !== undefined && floorThickness < 0) {
+        newErrors['weir-floorThickness'] = 'Floor thickness cannot be negative';
+      }
+      sheetPiles.forEach((pile, index) => {
+        if (pile.depth <= 0) {
+          newErrors[`sheetPile-${index}`] = 'Pile depth must be greater than zero';
+        } else if (
+          pile.position < -upstreamFloorLength 
+          || (inputs.baseWidth !== undefined && pile.position > inputs.baseWidth + downstreamFloorLength)
+        ) {
+          newErrors[`sheetPile-${index}`] = 'Pile must lie under the floor';
+        }
+      });
+    }
+    
+    // Lift joints must lie between the base and the crest
+    if (inputs.liftJointSpacing !== undefined && inputs.liftJointSpacing < 0) {
+      newErrors.liftJointSpacing = 'Lift height cannot be negative';
+    }
+    (inputs.liftJointElevations ?? []).forEach((elevation, index) => {
+      if (elevation <= 0 || (inputs.height !== undefined && elevation >= inputs.height)) {
+        newErrors[`liftJoint-${index}`] = 'Joint must lie between the base and the crest';
+      }
+    });
+    
+    // The finite element model needs valid elastic constants and a mesh the browser can solve
+    if (inputs.finiteElement) {
+      const { elasticModulus, poissonRatio, divisions, foundationDepth = 0, foundationModulus, foundationPoissonRatio } = inputs.finiteElement;
+      
+      if (!elasticModulus || elasticModulus <= 0) {
+        newErrors.elasticModulus = 'Modulus of elasticity must be greater than zero';
+      }
+      if (poissonRatio === undefined || poissonRatio < 0 || poissonRatio >= 0.5) {
+        newErrors.poissonRatio = "Poisson's ratio must be between 0 and 0.5";
+      }
+      if (!divisions || !Number.isInteger(divisions) || divisions < 1 || divisions > 20) {
+        newErrors.divisions = 'Use a whole number of elements between 1 and 20';
+      }
+      if (foundationDepth < 0) {
+        newErrors.foundationDepth = 'Foundation depth cannot be negative';
+      }
+      if (foundationDepth > 0 && foundationModulus !== undefined && foundationModulus <= 0) {
+        newErrors.foundationModulus = 'Modulus of elasticity must be greater than zero';
+      }
+      if (foundationDepth > 0 && foundationPoissonRatio !== undefined && (foundationPoissonRatio < 0 || foundationPoissonRatio >= 0.5)) {
+        newErrors.foundationPoissonRatio = "Poisson's ratio must be between 0 and 0.5";
+      }
+    }
+    
+    // Wedges need a seam below the whole base and valid slip planes
+    if (inputs.wedgeAnalysis) {
+      const { seamDepth, drivingWedge, resistingWedges } = inputs.wedgeAnalysis;
+      const heelDepth = seamDepth + (inputs.baseWidth ?? 0) * Math.tan(drivingWedge.angle * Math.PI / 180);
+      
+      if (seamDepth < 0 || heelDepth < 0) {
+        newErrors.seamDepth = 'The seam must lie below the base from heel to toe';
+      }
+      if (Math.abs(drivingWedge.angle) >= 45 || drivingWedge.frictionAngle <= 0 || drivingWedge.frictionAngle >= 90) {
+        newErrors['wedge-driving'] = 'Enter a slip plane angle below 45° and a friction angle between 0° and 90°';
+      }
+      resistingWedges.forEach((wedge, index) => {
+        if (!wedge.length || wedge.length <= 0) {
+          newErrors[`wedge-${index}`] = 'Wedge length must be greater than zero';
+        } else if (Math.abs(wedge.angle) >= 90 || wedge.frictionAngle <= 0 || wedge.frictionAngle >= 90) {
+          newErrors[`wedge-${index}`] = 'Enter a slip plane angle below 90° and a friction angle between 0° and 90°';
+        }
+      });
+    }
+    
+    // Validate tailwater is below the dam crest
+    if (inputs.tailwaterLevel && inputs.height && inputs.tailwaterLevel > inputs.height) {
+      newErrors.tailwaterLevel = 'Tailwater level cannot exceed dam height';
     }
     
     setErrors(newErrors);
@@ -287,6 +843,24 @@ const Calculator = () => {
                   Turn off if friction coefficient is not relevant to your problem
                 </p>
               </div>
+              
+              <div className="border-t border-white/10 pt-4">
+                <p className="text-sm font-medium text-white/90 mb-2">Take Moments About</p>
+                <RadioGroup
+                  value={inputs.momentReference || 'heel'}
+                  onValueChange={(value) => setInputs(prev => ({ ...prev, momentReference: value as MomentReference }))}
+                  className="flex space-x-6"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="heel" id="moment-heel" />
+                    <Label htmlFor="moment-heel">Heel</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="toe" id="moment-toe" />
+                    <Label htmlFor="moment-toe">Toe</Label>
+                  </div>
+                </RadioGroup>
+              </div>
             </div>
           )}
           
@@ -318,10 +892,12 @@ const Calculator = () => {
           </div>
           
           <Tabs defaultValue="dimensions" className="animate-fade-up animate-delay-400">
-            <TabsList className="grid w-full grid-cols-3 bg-white/5">
+            <TabsList className={`grid w-full ${advancedMode ? 'grid-cols-5' : 'grid-cols-2'} bg-white/5`}>
               <TabsTrigger value="dimensions">Dimensions</TabsTrigger>
               <TabsTrigger value="materials">Materials</TabsTrigger>
               {advancedMode && <TabsTrigger value="uplift">Uplift</TabsTrigger>}
+              {advancedMode && <TabsTrigger value="loads">Loads</TabsTrigger>}
+              {advancedMode && <TabsTrigger value="foundation">Foundation</TabsTrigger>}
             </TabsList>
             
             {/* Main dimensions */}
@@ -383,6 +959,61 @@ const Calculator = () => {
                   step="0.1"
                 />
               )}
+              
+              {advancedMode && (
+                <>
+                  <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-3">
+                    <h2 className="text-lg font-medium">Lift Joints</h2>
+                    <button
+                      type="button"
+                      onClick={handleAddLiftJoint}
+                      className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                    >
+                      <Plus className="w-4 h-4" />
+                      <span>Add Joint</span>
+                    </button>
+                  </div>
+                  
+                  <InputField
+                    label="Lift Height (optional)"
+                    name="liftJointSpacing"
+                    type="number"
+                    placeholder="Uniform spacing of lift joints"
+                    value={inputs.liftJointSpacing || ''}
+                    onChange={handleInputChange}
+                    suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                    error={errors.liftJointSpacing}
+                    min="0"
+                    step="0.1"
+                  />
+                  
+                  {(inputs.liftJointElevations ?? []).map((elevation, index) => (
+                    <div key={index} className="grid grid-cols-[1fr_auto] gap-3 items-start">
+                      <InputField
+                        label={`Joint ${index + 1} Elevation`}
+                        name={`liftJoint-${index}`}
+                        type="number"
+                        placeholder="Height above the base"
+                        value={elevation || ''}
+                        onChange={(e) => handleLiftJointChange(index, e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        error={errors[`liftJoint-${index}`]}
+                        min="0"
+                        step="0.1"
+                      />
+                      
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveLiftJoint(index)}
+                        className="mt-10 text-white/60 hover:text-red-400"
+                        aria-label={`Remove joint ${index + 1}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </>
+              )}
             </TabsContent>
             
             {/* Material properties */}
@@ -453,6 +1084,74 @@ const Calculator = () => {
                   disabled={solveForMode && inputs.solveFor === 'frictionCoefficient'}
                 />
               )}
+              
+              {advancedMode && needsFrictionCalculation && (
+                <>
+                  <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                    Shear-Friction (optional)
+                  </h2>
+                  
+                  <InputField
+                    label="Foundation Cohesion"
+                    name="cohesion"
+                    type="number"
+                    placeholder="Enter cohesion"
+                    value={inputs.cohesion || ''}
+                    onChange={handleInputChange}
+                    suffix={unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²'}
+                    min="0"
+                    step="1"
+                  />
+                  
+                  <InputField
+                    label="Foundation Friction Angle"
+                    name="foundationFrictionAngle"
+                    type="number"
+                    placeholder="Enter friction angle"
+                    value={inputs.foundationFrictionAngle || ''}
+                    onChange={handleInputChange}
+                    suffix="°"
+                    error={errors.foundationFrictionAngle}
+                    min="0"
+                    max="90"
+                    step="0.5"
+                  />
+                  
+                  <InputField
+                    label="Compressed Base Length"
+                    name="contactLength"
+                    type="number"
+                    placeholder="Defaults to the base width"
+                    value={inputs.contactLength || ''}
+                    onChange={handleInputChange}
+                    suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                    error={errors.contactLength}
+                    min="0"
+                    step="0.1"
+                  />
+                  
+                  <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                    Foundation Plane
+                  </h2>
+                  
+                  <InputField
+                    label="Foundation Inclination"
+                    name="foundationInclination"
+                    type="number"
+                    placeholder="0 for a horizontal base"
+                    value={inputs.foundationInclination || ''}
+                    onChange={handleInputChange}
+                    suffix="°"
+                    error={errors.foundationInclination}
+                    min="-45"
+                    max="45"
+                    step="0.5"
+                  />
+                  <p className="text-sm text-white/60 -mt-2">
+                    Positive when the plane rises toward the toe, negative when it falls toward the toe
+                  </p>
+                </>
+              )}
             </TabsContent>
             
             {/* Optional uplift inputs */}
@@ -485,6 +1184,1144 @@ const Calculator = () => {
                   min="0"
                   step="0.1"
                 />
+                
+                <InputField
+                  label="Drain Distance from Heel (optional)"
+                  name="drainDistance"
+                  type="number"
+                  placeholder="Enter drain line position"
+                  value={inputs.drainDistance || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                  error={errors.drainDistance}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <InputField
+                  label="Drain Efficiency"
+                  name="drainEfficiency"
+                  type="number"
+                  placeholder="Enter drain efficiency"
+                  value={inputs.drainEfficiency || ''}
+                  onChange={handleInputChange}
+                  suffix="%"
+                  error={errors.drainEfficiency}
+                  min="0"
+                  max="100"
+                  step="1"
+                />
+                
+                <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-3">
+                  <h2 className="text-lg font-medium">Piezometer Profile</h2>
+                  <button
+                    type="button"
+                    onClick={handleAddProfilePoint}
+                    disabled={upliftFromModel}
+                    className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80 disabled:opacity-60 disabled:cursor-not-allowed"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Reading</span>
+                  </button>
+                </div>
+                
+                {upliftFromModel ? (
+                  <p className="text-sm text-white/60">
+                    The {inputs.seepage ? 'seepage model' : 'weir floor'} sets the uplift, so these readings are not used
+                  </p>
+                ) : (inputs.upliftProfile ?? []).length > 0 && (
+                  <p className="text-sm text-white/60">
+                    Measured heads replace the heel, toe and drain uplift values
+                  </p>
+                )}
+                
+                {(inputs.upliftProfile ?? []).map((point, index) => (
+                  <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start">
+                    <InputField
+                      label="Distance from Heel"
+                      name={`upliftProfile-${index}-distance`}
+                      type="number"
+                      placeholder="Distance"
+                      value={point.distance || ''}
+                      onChange={(e) => handleProfilePointChange(index, 'distance', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors[`upliftProfile-${index}`]}
+                      disabled={upliftFromModel}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <InputField
+                      label="Pressure Head"
+                      name={`upliftProfile-${index}-head`}
+                      type="number"
+                      placeholder="Head"
+                      value={point.head || ''}
+                      onChange={(e) => handleProfilePointChange(index, 'head', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      disabled={upliftFromModel}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveProfilePoint(index)}
+                      disabled={upliftFromModel}
+                      className="mt-10 text-white/60 hover:text-red-400 disabled:opacity-60 disabled:cursor-not-allowed"
+                      aria-label={`Remove reading ${index + 1}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+                
+                {errors.upliftProfile && (
+                  <p className="text-sm text-red-400">{errors.upliftProfile}</p>
+                )}
+                
+                <div className="border-t border-white/10 pt-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Switch 
+                      id="seepage-model" 
+                      checked={!!inputs.seepage} 
+                      onCheckedChange={handleSeepageToggle}
+                    />
+                    <Label htmlFor="seepage-model">Foundation Seepage Model</Label>
+                  </div>
+                  <p className="text-sm text-white/60">
+                    Derive the uplift from steady seepage through the foundation instead of the heads above
+                  </p>
+                </div>
+                
+                {inputs.seepage && (
+                  <>
+                    <InputField
+                      label="Pervious Depth"
+                      name="seepage-foundationDepth"
+                      type="number"
+                      placeholder="Depth to the impervious layer"
+                      value={inputs.seepage.foundationDepth ?? ''}
+                      onChange={(e) => handleSeepageChange('foundationDepth', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors['seepage-foundationDepth']}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <InputField
+                      label="Permeability"
+                      name="seepage-permeability"
+                      type="number"
+                      placeholder="Horizontal permeability"
+                      value={inputs.seepage.permeability ?? ''}
+                      onChange={(e) => handleSeepageChange('permeability', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm/s' : 'ft/s'}
+                      error={errors['seepage-permeability']}
+                      min="0"
+                      step="any"
+                    />
+                    
+                    <InputField
+                      label="Anisotropy Ratio (optional)"
+                      name="seepage-anisotropyRatio"
+                      type="number"
+                      placeholder="kh / kv, defaults to 1"
+                      value={inputs.seepage.anisotropyRatio ?? ''}
+                      onChange={(e) => handleSeepageChange('anisotropyRatio', e.target.value)}
+                      error={errors['seepage-anisotropyRatio']}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <div className="grid grid-cols-2 gap-3">
+                      <InputField
+                        label="Cutoff Depth (optional)"
+                        name="seepage-cutoffDepth"
+                        type="number"
+                        placeholder="Below the base"
+                        value={inputs.seepage.cutoffDepth ?? ''}
+                        onChange={(e) => handleSeepageChange('cutoffDepth', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        error={errors['seepage-cutoffDepth']}
+                        min="0"
+                        step="0.1"
+                      />
+                      
+                      <InputField
+                        label="Cutoff Position"
+                        name="seepage-cutoffPosition"
+                        type="number"
+                        placeholder="From the heel"
+                        value={inputs.seepage.cutoffPosition ?? ''}
+                        onChange={(e) => handleSeepageChange('cutoffPosition', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        error={errors['seepage-cutoffPosition']}
+                        min="0"
+                        step="0.1"
+                      />
+                    </div>
+                    
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Drains</span>
+                      <button
+                        type="button"
+                        onClick={handleAddSeepageDrain}
+                        className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Add Drain</span>
+                      </button>
+                    </div>
+                    
+                    {(inputs.seepage.drainPositions ?? []).map((position, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_auto] gap-3 items-start">
+                        <InputField
+                          label={`Drain ${index + 1} Distance from Heel`}
+                          name={`seepageDrain-${index}`}
+                          type="number"
+                          placeholder="Distance"
+                          value={position || ''}
+                          onChange={(e) => handleSeepageDrainChange(index, e.target.value)}
+                          suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                          error={errors[`seepageDrain-${index}`]}
+                          min="0"
+                          step="0.1"
+                        />
+                        
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveSeepageDrain(index)}
+                          className="mt-10 text-white/60 hover:text-red-400"
+                          aria-label={`Remove drain ${index + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </>
+                )}
+                
+                <div className="border-t border-white/10 pt-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Switch 
+                      id="weir-foundation" 
+                      checked={!!inputs.weirFoundation} 
+                      onCheckedChange={handleWeirFoundationToggle}
+                    />
+                    <Label htmlFor="weir-foundation">Weir on Permeable Foundation</Label>
+                  </div>
+                  <p className="text-sm text-white/60">
+                    Check the floor by Bligh's, Lane's and Khosla's methods and take the uplift from Khosla's pressures
+                  </p>
+                </div>
+                
+                {inputs.weirFoundation && (
+                  <>
+                    <div className="mb-4">
+                      <Label className="block text-sm font-medium text-white/90 mb-1">Soil Class</Label>
+                      <Select
+                        value={inputs.weirFoundation.soilClass}
+                        onValueChange={(value) => handleWeirSoilClassChange(value as WeirSoilClass)}
+                      >
+                        <SelectTrigger className="bg-white/5 border-white/20">
+                          <SelectValue placeholder="Select soil class" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-dam-dark border-white/20">
+                          <SelectItem value="fineSand">Fine Sand</SelectItem>
+                          <SelectItem value="coarseSand">Coarse Sand</SelectItem>
+                          <SelectItem value="gravelSand">Gravel and Sand</SelectItem>
+                          <SelectItem value="boulders">Boulders, Gravel and Sand</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <div className="grid grid-cols-2 gap-3">
+                      <InputField
+                        label="Upstream Floor"
+                        name="weir-upstreamFloorLength"
+                        type="number"
+                        placeholder="Beyond the heel"
+                        value={inputs.weirFoundation.upstreamFloorLength || ''}
+                        onChange={(e) => handleWeirFoundationChange('upstreamFloorLength', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        error={errors['weir-upstreamFloorLength']}
+                        min="0"
+                        step="0.1"
+                      />
+                      
+                      <InputField
+                        label="Downstream Floor"
+                        name="weir-downstreamFloorLength"
+                        type="number"
+                        placeholder="Beyond the toe"
+                        value={inputs.weirFoundation.downstreamFloorLength || ''}
+                        onChange={(e) => handleWeirFoundationChange('downstreamFloorLength', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        error={errors['weir-downstreamFloorLength']}
+                        min="0"
+                        step="0.1"
+                      />
+                    </div>
+                    
+                    <InputField
+                      label="Floor Thickness (optional)"
+                      name="weir-floorThickness"
+                      type="number"
+                      placeholder="For the thickness correction"
+                      value={inputs.weirFoundation.floorThickness ?? ''}
+                      onChange={(e) => handleWeirFoundationChange('floorThickness', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors['weir-floorThickness']}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Sheet Piles</span>
+                      <button
+                        type="button"
+                        onClick={handleAddSheetPile}
+                        className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Add Pile</span>
+                      </button>
+                    </div>
+                    
+                    <p className="text-sm text-white/60">
+                      Positions are measured from the heel, negative under the upstream floor. The exit gradient needs a pile at the downstream end of the floor.
+                    </p>
+                    
+                    {inputs.weirFoundation.sheetPiles.map((pile, index) => (
+                      <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3 items-start">
+                        <InputField
+                          label="Distance from Heel"
+                          name={`sheetPile-${index}-position`}
+                          type="number"
+                          placeholder="Position"
+                          value={pile.position || ''}
+                          onChange={(e) => handleSheetPileChange(index, 'position', e.target.value)}
+                          suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                          error={errors[`sheetPile-${index}`]}
+                          step="0.1"
+                        />
+                        
+                        <InputField
+                          label="Depth"
+                          name={`sheetPile-${index}-depth`}
+                          type="number"
+                          placeholder="Below the floor"
+                          value={pile.depth || ''}
+                          onChange={(e) => handleSheetPileChange(index, 'depth', e.target.value)}
+                          suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                          min="0"
+                          step="0.1"
+                        />
+                        
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveSheetPile(index)}
+                          className="mt-10 text-white/60 hover:text-red-400"
+                          aria-label={`Remove sheet pile ${index + 1}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </>
+                )}
+                
+                <div className="border-t border-white/10 pt-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Switch 
+                      id="cracked-base-analysis" 
+                      checked={!!inputs.crackedBaseAnalysis} 
+                      onCheckedChange={(checked) => setInputs(prev => ({ ...prev, crackedBaseAnalysis: checked }))}
+                    />
+                    <Label htmlFor="cracked-base-analysis">Cracked Base Analysis</Label>
+                  </div>
+                  <p className="text-sm text-white/60">
+                    Iterate on the heel crack length when the resultant falls outside the middle third
+                  </p>
+                </div>
+              </TabsContent>
+            )}
+            
+            {/* Optional additional loads */}
+            {advancedMode && (
+              <TabsContent value="loads" className="space-y-4 mt-4">
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Tailwater
+                </h2>
+                
+                <InputField
+                  label="Tailwater Level"
+                  name="tailwaterLevel"
+                  type="number"
+                  placeholder="Enter downstream water depth"
+                  value={inputs.tailwaterLevel || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                  error={errors.tailwaterLevel}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Silt
+                </h2>
+                
+                <InputField
+                  label="Silt Depth"
+                  name="siltDepth"
+                  type="number"
+                  placeholder="Enter sediment depth"
+                  value={inputs.siltDepth || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                  error={errors.siltDepth}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <InputField
+                  label="Submerged Silt Unit Weight"
+                  name="siltUnitWeight"
+                  type="number"
+                  placeholder="Enter submerged unit weight"
+                  value={inputs.siltUnitWeight || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'kN/m³' : 'lb/ft³'}
+                  error={errors.siltUnitWeight}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <InputField
+                  label="Silt Friction Angle"
+                  name="siltFrictionAngle"
+                  type="number"
+                  placeholder="Enter internal friction angle"
+                  value={inputs.siltFrictionAngle || ''}
+                  onChange={handleInputChange}
+                  suffix="°"
+                  min="0"
+                  max="90"
+                  step="1"
+                />
+                
+                <InputField
+                  label="Rankine Coefficient (optional)"
+                  name="siltPressureCoefficient"
+                  type="number"
+                  placeholder="Overrides the friction angle"
+                  value={inputs.siltPressureCoefficient ?? ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+                
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Ice
+                </h2>
+                
+                <InputField
+                  label="Ice Load"
+                  name="iceLoad"
+                  type="number"
+                  placeholder="Enter design ice thrust"
+                  value={inputs.iceLoad || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'kN/m' : 'lb/ft'}
+                  error={errors.iceLoad}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <InputField
+                  label="Ice Depth Below Pool"
+                  name="iceDepth"
+                  type="number"
+                  placeholder="Enter depth below water surface"
+                  value={inputs.iceDepth || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                  error={errors.iceDepth}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-3">
+                  <h2 className="text-lg font-medium">Anchors</h2>
+                  <button
+                    type="button"
+                    onClick={handleAddAnchor}
+                    className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Row</span>
+                  </button>
+                </div>
+                
+                {(inputs.anchors ?? []).map((anchor, index) => (
+                  <div key={index} className="bg-white/5 rounded-xl p-3 border border-white/10">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-white/90">Anchor Row {index + 1}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveAnchor(index)}
+                        className="text-white/60 hover:text-red-400"
+                        aria-label={`Remove anchor row ${index + 1}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    
+                    <InputField
+                      label="Force"
+                      name={`anchor-${index}-force`}
+                      type="number"
+                      placeholder="Enter anchor force"
+                      value={anchor.force || ''}
+                      onChange={(e) => handleAnchorChange(index, 'force', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'kN/m' : 'lb/ft'}
+                      min="0"
+                      step="1"
+                    />
+                    
+                    <InputField
+                      label="Inclination from Vertical"
+                      name={`anchor-${index}-inclination`}
+                      type="number"
+                      placeholder="0 for a vertical anchor"
+                      value={anchor.inclination || ''}
+                      onChange={(e) => handleAnchorChange(index, 'inclination', e.target.value)}
+                      suffix="°"
+                      min="0"
+                      max="90"
+                      step="1"
+                    />
+                    
+                    <InputField
+                      label="Position from Heel"
+                      name={`anchor-${index}-position`}
+                      type="number"
+                      placeholder="Enter distance from heel"
+                      value={anchor.position || ''}
+                      onChange={(e) => handleAnchorChange(index, 'position', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors[`anchor-${index}`]}
+                      min="0"
+                      step="0.1"
+                    />
+                  </div>
+                ))}
+                
+                <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-3">
+                  <h2 className="text-lg font-medium">Custom Loads</h2>
+                  <button
+                    type="button"
+                    onClick={handleAddCustomLoad}
+                    className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Load</span>
+                  </button>
+                </div>
+                
+                {(inputs.customLoads ?? []).map((load, index) => (
+                  <div key={index} className="bg-white/5 rounded-xl p-3 border border-white/10">
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="text-sm font-medium text-white/90">{load.label || `Custom Load ${index + 1}`}</span>
+                      <button
+                        type="button"
+                        onClick={() => handleRemoveCustomLoad(index)}
+                        className="text-white/60 hover:text-red-400"
+                        aria-label={`Remove custom load ${index + 1}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                    
+                    <InputField
+                      label="Label"
+                      name={`customLoad-${index}-label`}
+                      type="text"
+                      placeholder="e.g. Crest roadway"
+                      value={load.label}
+                      onChange={(e) => handleCustomLoadChange(index, 'label', e.target.value)}
+                    />
+                    
+                    <div className="mb-4">
+                      <Label className="block text-sm font-medium text-white/90 mb-1">Load Type</Label>
+                      <Select
+                        value={load.type}
+                        onValueChange={(value) => handleCustomLoadChange(index, 'type', value as CustomLoadType)}
+                      >
+                        <SelectTrigger className="bg-white/5 border-white/20">
+                          <SelectValue placeholder="Select load type" />
+                        </SelectTrigger>
+                        <SelectContent className="bg-dam-dark border-white/20">
+                          <SelectItem value="point">Point Load</SelectItem>
+                          <SelectItem value="distributed">Distributed Load</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    
+                    <InputField
+                      label={load.type === 'distributed' ? 'Intensity' : 'Magnitude'}
+                      name={`customLoad-${index}-magnitude`}
+                      type="number"
+                      placeholder="Enter load magnitude"
+                      value={load.magnitude || ''}
+                      onChange={(e) => handleCustomLoadChange(index, 'magnitude', e.target.value)}
+                      suffix={load.type === 'distributed' 
+                        ? (unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²') 
+                        : (unitSystem === 'metric' ? 'kN/m' : 'lb/ft')}
+                      step="1"
+                    />
+                    
+                    <InputField
+                      label="Direction from Vertical (toward toe)"
+                      name={`customLoad-${index}-angle`}
+                      type="number"
+                      placeholder="0 for a downward load"
+                      value={load.angle || ''}
+                      onChange={(e) => handleCustomLoadChange(index, 'angle', e.target.value)}
+                      suffix="°"
+                      min="-180"
+                      max="180"
+                      step="1"
+                    />
+                    
+                    <div className="grid grid-cols-2 gap-3">
+                      <InputField
+                        label={load.type === 'distributed' ? 'Start x from Heel' : 'x from Heel'}
+                        name={`customLoad-${index}-x`}
+                        type="number"
+                        placeholder="Distance"
+                        value={load.x || ''}
+                        onChange={(e) => handleCustomLoadChange(index, 'x', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        min="0"
+                        step="0.1"
+                      />
+                      
+                      <InputField
+                        label={load.type === 'distributed' ? 'Start y above Base' : 'y above Base'}
+                        name={`customLoad-${index}-y`}
+                        type="number"
+                        placeholder="Height"
+                        value={load.y || ''}
+                        onChange={(e) => handleCustomLoadChange(index, 'y', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                        min="0"
+                        step="0.1"
+                      />
+                      
+                      {load.type === 'distributed' && (
+                        <>
+                          <InputField
+                            label="End x from Heel"
+                            name={`customLoad-${index}-endX`}
+                            type="number"
+                            placeholder="Distance"
+                            value={load.endX || ''}
+                            onChange={(e) => handleCustomLoadChange(index, 'endX', e.target.value)}
+                            suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                            min="0"
+                            step="0.1"
+                          />
+                          
+                          <InputField
+                            label="End y above Base"
+                            name={`customLoad-${index}-endY`}
+                            type="number"
+                            placeholder="Height"
+                            value={load.endY || ''}
+                            onChange={(e) => handleCustomLoadChange(index, 'endY', e.target.value)}
+                            suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                            min="0"
+                            step="0.1"
+                          />
+                        </>
+                      )}
+                    </div>
+                    
+                    {errors[`customLoad-${index}`] && (
+                      <p className="text-sm text-red-400">{errors[`customLoad-${index}`]}</p>
+                    )}
+                  </div>
+                ))}
+                
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Seismic
+                </h2>
+                
+                <InputField
+                  label="Horizontal Seismic Coefficient (kh)"
+                  name="horizontalSeismicCoefficient"
+                  type="number"
+                  placeholder="Enter kh"
+                  value={inputs.horizontalSeismicCoefficient || ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+                
+                <InputField
+                  label="Vertical Seismic Coefficient (kv)"
+                  name="verticalSeismicCoefficient"
+                  type="number"
+                  placeholder="Enter kv"
+                  value={inputs.verticalSeismicCoefficient || ''}
+                  onChange={handleInputChange}
+                  min="0"
+                  max="1"
+                  step="0.01"
+                />
+                
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Spillway Gate
+                </h2>
+                
+                <div className="mb-4">
+                  <Label className="block text-sm font-medium text-white/90 mb-1">Gate Type</Label>
+                  <Select
+                    value={inputs.gateType ?? 'none'}
+                    onValueChange={(value) => setInputs(prev => ({ 
+                      ...prev, 
+                      gateType: value === 'none' ? undefined : value as GateType 
+                    }))}
+                  >
+                    <SelectTrigger className="bg-white/5 border-white/20">
+                      <SelectValue placeholder="Select gate type" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-dam-dark border-white/20">
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="radial">Radial Gate</SelectItem>
+                      <SelectItem value="verticalLift">Vertical-Lift Gate</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
+                {inputs.gateType && (
+                  <>
+                    <InputField
+                      label="Gate Height"
+                      name="gateHeight"
+                      type="number"
+                      placeholder="Enter gate leaf height"
+                      value={inputs.gateHeight || ''}
+                      onChange={handleInputChange}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <InputField
+                      label="Sill Elevation"
+                      name="gateSillElevation"
+                      type="number"
+                      placeholder="Defaults to the crest height"
+                      value={inputs.gateSillElevation ?? ''}
+                      onChange={handleInputChange}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors.gateSillElevation}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    {inputs.gateType === 'radial' && (
+                      <>
+                        <InputField
+                          label="Gate Radius"
+                          name="gateRadius"
+                          type="number"
+                          placeholder="Enter skin plate radius"
+                          value={inputs.gateRadius || ''}
+                          onChange={handleInputChange}
+                          suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                          error={errors.gateRadius}
+                          min="0"
+                          step="0.1"
+                        />
+                        
+                        <div className="grid grid-cols-2 gap-3">
+                          <InputField
+                            label="Trunnion from Heel"
+                            name="trunnionDistance"
+                            type="number"
+                            placeholder="Distance"
+                            value={inputs.trunnionDistance || ''}
+                            onChange={handleInputChange}
+                            suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                            error={errors.trunnionDistance}
+                            min="0"
+                            step="0.1"
+                          />
+                          
+                          <InputField
+                            label="Trunnion Elevation"
+                            name="trunnionElevation"
+                            type="number"
+                            placeholder="Height"
+                            value={inputs.trunnionElevation || ''}
+                            onChange={handleInputChange}
+                            suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                            min="0"
+                            step="0.1"
+                          />
+                        </div>
+                      </>
+                    )}
+                    
+                    <InputField
+                      label="Gate Bay Width"
+                      name="gateBayWidth"
+                      type="number"
+                      placeholder="Enter clear width between piers"
+                      value={inputs.gateBayWidth || ''}
+                      onChange={handleInputChange}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors.gateBayWidth}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <InputField
+                      label="Monolith Width"
+                      name="monolithWidth"
+                      type="number"
+                      placeholder="Enter bay plus pier width"
+                      value={inputs.monolithWidth || ''}
+                      onChange={handleInputChange}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors.monolithWidth}
+                      min="0"
+                      step="0.1"
+                    />
+                  </>
+                )}
+                
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                  Wind Waves
+                </h2>
+                
+                <InputField
+                  label="Fetch Length"
+                  name="fetchLength"
+                  type="number"
+                  placeholder="Enter fetch over the reservoir"
+                  value={inputs.fetchLength || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'km' : 'mi'}
+                  error={errors.fetchLength}
+                  min="0"
+                  step="0.1"
+                />
+                
+                <InputField
+                  label="Wind Speed"
+                  name="windSpeed"
+                  type="number"
+                  placeholder="Enter design wind speed"
+                  value={inputs.windSpeed || ''}
+                  onChange={handleInputChange}
+                  suffix={unitSystem === 'metric' ? 'km/h' : 'mph'}
+                  error={errors.windSpeed}
+                  min="0"
+                  step="1"
+                />
+                
+                <InputField
+                  label="Wind Duration (optional)"
+                  name="windDuration"
+                  type="number"
+                  placeholder="Enter wind duration"
+                  value={inputs.windDuration || ''}
+                  onChange={handleInputChange}
+                  suffix="h"
+                  min="0"
+                  step="0.5"
+                />
+              </TabsContent>
+            )}
+            
+            {/* Foundation seams for the multi-wedge sliding analysis */}
+            {advancedMode && (
+              <TabsContent value="foundation" className="space-y-4 mt-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <Switch 
+                    id="wedge-analysis" 
+                    checked={!!inputs.wedgeAnalysis} 
+                    onCheckedChange={handleWedgeAnalysisToggle}
+                  />
+                  <Label htmlFor="wedge-analysis">Multi-Wedge Sliding Analysis</Label>
+                </div>
+                <p className="text-sm text-white/60">
+                  Check sliding along a weak seam below the base, with passive rock wedges downstream of the toe
+                </p>
+                
+                {inputs.wedgeAnalysis && (
+                  <>
+                    <InputField
+                      label="Seam Depth at Toe"
+                      name="seamDepth"
+                      type="number"
+                      placeholder="Depth of the seam below the base"
+                      value={inputs.wedgeAnalysis.seamDepth || ''}
+                      onChange={(e) => handleWedgeAnalysisChange('seamDepth', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors.seamDepth}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <InputField
+                      label="Rock Unit Weight"
+                      name="rockUnitWeight"
+                      type="number"
+                      placeholder="Enter foundation rock unit weight"
+                      value={inputs.wedgeAnalysis.rockUnitWeight || ''}
+                      onChange={(e) => handleWedgeAnalysisChange('rockUnitWeight', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'kN/m³' : 'lb/ft³'}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-3">
+                      Driving Wedge
+                    </h2>
+                    
+                    <div className="grid grid-cols-3 gap-3">
+                      <InputField
+                        label="Slip Plane Angle"
+                        name="wedge-driving-angle"
+                        type="number"
+                        placeholder="Rising toward the toe"
+                        value={inputs.wedgeAnalysis.drivingWedge.angle || ''}
+                        onChange={(e) => handleWedgeChange('driving', 'angle', e.target.value)}
+                        suffix="°"
+                        step="0.5"
+                      />
+                      
+                      <InputField
+                        label="Cohesion"
+                        name="wedge-driving-cohesion"
+                        type="number"
+                        placeholder="Cohesion"
+                        value={inputs.wedgeAnalysis.drivingWedge.cohesion || ''}
+                        onChange={(e) => handleWedgeChange('driving', 'cohesion', e.target.value)}
+                        suffix={unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²'}
+                        min="0"
+                        step="1"
+                      />
+                      
+                      <InputField
+                        label="Friction Angle"
+                        name="wedge-driving-frictionAngle"
+                        type="number"
+                        placeholder="φ"
+                        value={inputs.wedgeAnalysis.drivingWedge.frictionAngle || ''}
+                        onChange={(e) => handleWedgeChange('driving', 'frictionAngle', e.target.value)}
+                        suffix="°"
+                        min="0"
+                        max="89"
+                        step="0.5"
+                      />
+                    </div>
+                    
+                    {errors['wedge-driving'] && (
+                      <p className="text-sm text-red-400">{errors['wedge-driving']}</p>
+                    )}
+                    
+                    <div className="flex items-center justify-between border-b border-white/10 pb-2 mb-3">
+                      <h2 className="text-lg font-medium">Resisting Wedges</h2>
+                      <button
+                        type="button"
+                        onClick={handleAddResistingWedge}
+                        className="flex items-center gap-1 text-sm text-dam-blue hover:text-dam-blue/80"
+                      >
+                        <Plus className="w-4 h-4" />
+                        <span>Add Wedge</span>
+                      </button>
+                    </div>
+                    
+                    {inputs.wedgeAnalysis.resistingWedges.map((wedge, index) => (
+                      <div key={index} className="bg-white/5 rounded-xl p-3 border border-white/10 space-y-3">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-medium">Resisting Wedge {index + 1}</span>
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveResistingWedge(index)}
+                            className="text-white/60 hover:text-red-400"
+                            aria-label={`Remove resisting wedge ${index + 1}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                        
+                        <div className="grid grid-cols-2 gap-3">
+                          <InputField
+                            label="Slip Plane Angle"
+                            name={`wedge-${index}-angle`}
+                            type="number"
+                            placeholder="Rising toward the toe"
+                            value={wedge.angle || ''}
+                            onChange={(e) => handleWedgeChange(index, 'angle', e.target.value)}
+                            suffix="°"
+                            step="0.5"
+                          />
+                          
+                          <InputField
+                            label="Length"
+                            name={`wedge-${index}-length`}
+                            type="number"
+                            placeholder="Horizontal length"
+                            value={wedge.length || ''}
+                            onChange={(e) => handleWedgeChange(index, 'length', e.target.value)}
+                            suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                            min="0"
+                            step="0.1"
+                          />
+                          
+                          <InputField
+                            label="Cohesion"
+                            name={`wedge-${index}-cohesion`}
+                            type="number"
+                            placeholder="Cohesion"
+                            value={wedge.cohesion || ''}
+                            onChange={(e) => handleWedgeChange(index, 'cohesion', e.target.value)}
+                            suffix={unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²'}
+                            min="0"
+                            step="1"
+                          />
+                          
+                          <InputField
+                            label="Friction Angle"
+                            name={`wedge-${index}-frictionAngle`}
+                            type="number"
+                            placeholder="φ"
+                            value={wedge.frictionAngle || ''}
+                            onChange={(e) => handleWedgeChange(index, 'frictionAngle', e.target.value)}
+                            suffix="°"
+                            min="0"
+                            max="89"
+                            step="0.5"
+                          />
+                        </div>
+                        
+                        {errors[`wedge-${index}`] && (
+                          <p className="text-sm text-red-400">{errors[`wedge-${index}`]}</p>
+                        )}
+                      </div>
+                    ))}
+                  </>
+                )}
+                
+                <div className="border-t border-white/10 pt-4">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <Switch 
+                      id="finite-element" 
+                      checked={!!inputs.finiteElement} 
+                      onCheckedChange={handleFiniteElementToggle}
+                    />
+                    <Label htmlFor="finite-element">Finite Element Analysis</Label>
+                  </div>
+                  <p className="text-sm text-white/60">
+                    Solve the section as a linear-elastic plane-strain model under self weight, water pressure and uplift
+                  </p>
+                </div>
+                
+                {inputs.finiteElement && (
+                  <>
+                    <InputField
+                      label="Concrete Modulus"
+                      name="elasticModulus"
+                      type="number"
+                      placeholder="Modulus of elasticity"
+                      value={inputs.finiteElement.elasticModulus ?? ''}
+                      onChange={(e) => handleFiniteElementChange('elasticModulus', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'GPa' : 'ksi'}
+                      error={errors.elasticModulus}
+                      min="0"
+                      step="1"
+                    />
+                    
+                    <InputField
+                      label="Concrete Poisson's Ratio"
+                      name="poissonRatio"
+                      type="number"
+                      placeholder="Poisson's ratio"
+                      value={inputs.finiteElement.poissonRatio ?? ''}
+                      onChange={(e) => handleFiniteElementChange('poissonRatio', e.target.value)}
+                      error={errors.poissonRatio}
+                      min="0"
+                      max="0.49"
+                      step="0.01"
+                    />
+                    
+                    <InputField
+                      label="Elements across Base"
+                      name="divisions"
+                      type="number"
+                      placeholder="Mesh divisions"
+                      value={inputs.finiteElement.divisions ?? ''}
+                      onChange={(e) => handleFiniteElementChange('divisions', e.target.value)}
+                      error={errors.divisions}
+                      min="0"
+                      max="20"
+                      step="1"
+                    />
+                    
+                    <InputField
+                      label="Foundation Depth (optional)"
+                      name="foundationDepth"
+                      type="number"
+                      placeholder="Leave empty for a fixed base"
+                      value={inputs.finiteElement.foundationDepth ?? ''}
+                      onChange={(e) => handleFiniteElementChange('foundationDepth', e.target.value)}
+                      suffix={unitSystem === 'metric' ? 'm' : 'ft'}
+                      error={errors.foundationDepth}
+                      min="0"
+                      step="0.1"
+                    />
+                    
+                    {(inputs.finiteElement.foundationDepth ?? 0) > 0 && (
+                      <div className="grid grid-cols-2 gap-3">
+                        <InputField
+                          label="Foundation Modulus"
+                          name="foundationModulus"
+                          type="number"
+                          placeholder="Defaults to concrete"
+                          value={inputs.finiteElement.foundationModulus ?? ''}
+                          onChange={(e) => handleFiniteElementChange('foundationModulus', e.target.value)}
+                          suffix={unitSystem === 'metric' ? 'GPa' : 'ksi'}
+                          error={errors.foundationModulus}
+                          min="0"
+                          step="1"
+                        />
+                        
+                        <InputField
+                          label="Foundation Poisson's Ratio"
+                          name="foundationPoissonRatio"
+                          type="number"
+                          placeholder="Defaults to concrete"
+                          value={inputs.finiteElement.foundationPoissonRatio ?? ''}
+                          onChange={(e) => handleFiniteElementChange('foundationPoissonRatio', e.target.value)}
+                          error={errors.foundationPoissonRatio}
+                          min="0"
+                          max="0.49"
+                          step="0.01"
+                        />
+                      </div>
+                    )}
+                  </>
+                )}
               </TabsContent>
             )}
           </Tabs>
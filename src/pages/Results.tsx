@@ -4,11 +4,13 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import NavBar from '@/components/NavBar';
 import CalculationCard from '@/components/CalculationCard';
 import DamVisualization from '@/components/DamVisualization';
+import FiniteElementPlot from '@/components/FiniteElementPlot';
 import CalculationSteps from '@/components/CalculationSteps';
-import { DamInputs, CalculationResults } from '@/utils/types';
+import { DamInputs, CalculationResults, SafetyStatus } from '@/utils/types';
 import { Square, Triangle, Hexagon, Download, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
-import { formatNumber } from '@/utils/calculations';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatNumber, evaluateSafetyStatus } from '@/utils/calculations';
 
 const Results = () => {
   const location = useLocation();
@@ -48,6 +50,24 @@ const Results = () => {
   const unitSuffix = inputs.unitSystem === 'metric' ? 'm' : 'ft';
   const forceSuffix = inputs.unitSystem === 'metric' ? 'kN' : 'lb';
   const momentSuffix = inputs.unitSystem === 'metric' ? 'kNm' : 'lb-ft';
+  const stressSuffix = inputs.unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²';
+  
+  const statusColors: Record<SafetyStatus, string> = {
+    safe: 'text-green-400',
+    warning: 'text-yellow-400',
+    danger: 'text-red-400'
+  };
+  
+  const getKernStatusLabel = () => {
+    switch (results.basePressure.status) {
+      case 'safe':
+        return 'Within middle third';
+      case 'warning':
+        return 'Outside middle third - heel in tension';
+      case 'danger':
+        return results.isFloating ? 'No base contact - dam floats' : 'Resultant outside base';
+    }
+  };
   
   return (
     <div className="min-h-screen bg-dam-dark text-white pb-20">
@@ -86,6 +106,7 @@ const Results = () => {
             <DamVisualization 
               inputs={inputs} 
               locationOfRy={results.locationOfRy}
+              upliftProfile={results.seepage?.upliftProfile ?? results.weirCreep?.upliftProfile}
             />
           </div>
           
@@ -95,11 +116,29 @@ const Results = () => {
             </h2>
             
             <div className="space-y-4">
-              {results.safetyFactorSliding !== undefined && (
+              {results.safetyFactorSliding !== undefined ? (
                 <CalculationCard
                   title="Factor of Safety against Sliding"
                   value={results.safetyFactorSliding}
-                  description="Resistance to horizontal movement"
+                  valueLabel={Number.isFinite(results.safetyFactorSliding) ? undefined : 'No sliding tendency'}
+                  description="Resistance to horizontal movement (friction only)"
+                  isSafetyFactor
+                  withStatus
+                  delay={1}
+                  secondaryTitle="Shear-friction factor (c·A + V·tanφ) / H"
+                  secondaryValue={results.safetyFactorShearFriction}
+                  secondaryValueLabel={
+                    results.safetyFactorShearFriction === undefined || Number.isFinite(results.safetyFactorShearFriction)
+                      ? undefined
+                      : 'No sliding tendency'
+                  }
+                />
+              ) : results.safetyFactorShearFriction !== undefined && (
+                <CalculationCard
+                  title="Factor of Safety against Sliding"
+                  value={results.safetyFactorShearFriction}
+                  valueLabel={Number.isFinite(results.safetyFactorShearFriction) ? undefined : 'No sliding tendency'}
+                  description="Shear-friction resistance (c·A + V·tanφ) / H"
                   isSafetyFactor
                   withStatus
                   delay={1}
@@ -114,10 +153,305 @@ const Results = () => {
                 withStatus
                 delay={2}
               />
+              
+              {results.safetyFactorFlotation !== undefined && (
+                <CalculationCard
+                  title="Factor of Safety against Flotation"
+                  value={results.safetyFactorFlotation}
+                  description={results.isFloating ? 'Uplift exceeds weight - the dam floats' : 'Resistance to uplift'}
+                  isSafetyFactor
+                  withStatus
+                  delay={3}
+                />
+              )}
+            </div>
+            
+            {results.crackedBase && (
+              <>
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mt-6 mb-4 animate-fade-up">
+                  Cracked Base Analysis
+                </h2>
+                
+                <div className="space-y-4">
+                  <CalculationCard
+                    title="Compressed Base Length"
+                    value={results.crackedBase.compressedLength}
+                    unit={unitSuffix}
+                    description={
+                      !results.crackedBase.stable
+                        ? 'Crack runs through the base - section is unstable'
+                        : `Crack length ${formatNumber(results.crackedBase.crackLength)} ${unitSuffix} after ${results.crackedBase.iterations} iterations`
+                    }
+                    delay={3}
+                  />
+                  
+                  {results.crackedBase.safetyFactorSliding !== undefined && (
+                    <CalculationCard
+                      title="Sliding Factor (Cracked Base)"
+                      value={results.crackedBase.safetyFactorSliding}
+                      valueLabel={Number.isFinite(results.crackedBase.safetyFactorSliding) ? undefined : 'No sliding tendency'}
+                      description="Friction with crack uplift"
+                      isSafetyFactor
+                      withStatus
+                      delay={4}
+                    />
+                  )}
+                  
+                  <CalculationCard
+                    title="Overturning Factor (Cracked Base)"
+                    value={results.crackedBase.safetyFactorOverturning}
+                    description="Rotation with crack uplift"
+                    isSafetyFactor
+                    withStatus
+                    delay={5}
+                  />
+                </div>
+              </>
+            )}
+            
+            {results.wedgeAnalysis && (
+              <>
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mt-6 mb-4 animate-fade-up">
+                  Multi-Wedge Sliding
+                </h2>
+                
+                <div className="space-y-4">
+                  <CalculationCard
+                    title="Factor of Safety along the Seam"
+                    value={results.wedgeAnalysis.safetyFactor}
+                    description={
+                      results.wedgeAnalysis.converged
+                        ? `Common factor for ${results.wedgeAnalysis.wedges.length} wedges in limiting equilibrium`
+                        : 'Outside the solver range - value is a bound'
+                    }
+                    isSafetyFactor
+                    withStatus
+                    delay={5}
+                  />
+                  
+                  {results.wedgeAnalysis.wedges.map(wedge => (
+                    <CalculationCard
+                      key={wedge.label}
+                      title={`${wedge.label} - Force Passed Downstream`}
+                      value={wedge.interwedgeForce}
+                      unit={forceSuffix}
+                      description={`Normal force ${formatNumber(wedge.normalForce)} ${forceSuffix}, shear resistance ${formatNumber(wedge.shearResistance)} ${forceSuffix}`}
+                      delay={6}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+            
+            {results.weirCreep && (
+              <>
+                <h2 className="text-lg font-medium border-b border-white/10 pb-2 mt-6 mb-4 animate-fade-up">
+                  Weir Creep Analysis
+                </h2>
+                
+                <div className="space-y-4">
+                  <CalculationCard
+                    title="Bligh Creep Ratio"
+                    value={results.weirCreep.blighRatio}
+                    description={`Creep length ${formatNumber(results.weirCreep.blighCreepLength)} ${unitSuffix} under ${formatNumber(results.weirCreep.head)} ${unitSuffix} of head`}
+                    withStatus
+                    status={results.weirCreep.blighRatio >= results.weirCreep.blighCoefficient ? 'safe' : 'danger'}
+                    statusLabel={`Required ≥ ${results.weirCreep.blighCoefficient}`}
+                    delay={6}
+                  />
+                  
+                  <CalculationCard
+                    title="Lane Weighted Creep Ratio"
+                    value={results.weirCreep.laneRatio}
+                    description={`Weighted creep length ${formatNumber(results.weirCreep.laneCreepLength)} ${unitSuffix}`}
+                    withStatus
+                    status={results.weirCreep.laneRatio >= results.weirCreep.laneCoefficient ? 'safe' : 'danger'}
+                    statusLabel={`Required ≥ ${results.weirCreep.laneCoefficient}`}
+                    delay={6}
+                  />
+                  
+                  <CalculationCard
+                    title="Exit Gradient (Khosla)"
+                    value={results.weirCreep.exitGradient}
+                    valueLabel={Number.isFinite(results.weirCreep.exitGradient) ? undefined : 'Unbounded'}
+                    description={Number.isFinite(results.weirCreep.exitGradient) 
+                      ? 'At the downstream end pile' 
+                      : 'No pile at the downstream end of the floor'}
+                    withStatus
+                    status={results.weirCreep.exitGradient <= results.weirCreep.allowableExitGradient ? 'safe' : 'danger'}
+                    statusLabel={`Allowable ≤ ${formatNumber(results.weirCreep.allowableExitGradient)}`}
+                    delay={7}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+        
+        {results.weirCreep && results.weirCreep.piles.length > 0 && (
+          <div className="mb-10 animate-fade-up">
+            <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4">
+              Khosla Pressures at Key Points
+            </h2>
+            
+            <div className="bg-white/5 rounded-xl border border-white/10">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-white/10 hover:bg-transparent">
+                    <TableHead className="text-white/60">Pile</TableHead>
+                    <TableHead className="text-white/60">Distance from Heel ({unitSuffix})</TableHead>
+                    <TableHead className="text-white/60">Depth ({unitSuffix})</TableHead>
+                    <TableHead className="text-white/60">φE (%)</TableHead>
+                    <TableHead className="text-white/60">φD (%)</TableHead>
+                    <TableHead className="text-white/60">φC (%)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {results.weirCreep.piles.map((pile, index) => (
+                    <TableRow key={index} className="border-white/10 hover:bg-white/5">
+                      <TableCell>{index + 1}</TableCell>
+                      <TableCell>{formatNumber(pile.position)}</TableCell>
+                      <TableCell>{formatNumber(pile.depth)}</TableCell>
+                      <TableCell>{formatNumber(pile.pressureE)}</TableCell>
+                      <TableCell>{formatNumber(pile.pressureD)}</TableCell>
+                      <TableCell>{formatNumber(pile.pressureC)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            
+            <p className="text-sm text-white/60 mt-2">
+              Residual pressures in percent of the {formatNumber(results.weirCreep.head)} {unitSuffix} head, corrected for interference and floor thickness
+            </p>
+          </div>
+        )}
+        
+        {results.liftJoints && (
+          <div className="mb-10 animate-fade-up">
+            <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4">
+              Lift Joint Stability
+            </h2>
+            
+            <div className="bg-white/5 rounded-xl border border-white/10">
+              <Table>
+                <TableHeader>
+                  <TableRow className="border-white/10 hover:bg-transparent">
+                    <TableHead className="text-white/60">Elevation ({unitSuffix})</TableHead>
+                    <TableHead className="text-white/60">Joint Length ({unitSuffix})</TableHead>
+                    <TableHead className="text-white/60">Sliding</TableHead>
+                    <TableHead className="text-white/60">Overturning</TableHead>
+                    <TableHead className="text-white/60">Resultant from Upstream Face ({unitSuffix})</TableHead>
+                    <TableHead className="text-white/60">Middle Third</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...results.liftJoints].reverse().map(joint => (
+                    <TableRow key={joint.elevation} className="border-white/10 hover:bg-white/5">
+                      <TableCell>{formatNumber(joint.elevation)}</TableCell>
+                      <TableCell>{formatNumber(joint.width)}</TableCell>
+                      <TableCell className={joint.safetyFactorSliding !== undefined ? statusColors[evaluateSafetyStatus(joint.safetyFactorSliding)] : ''}>
+                        {joint.safetyFactorSliding === undefined
+                          ? '-'
+                          : Number.isFinite(joint.safetyFactorSliding) ? formatNumber(joint.safetyFactorSliding) : 'No sliding tendency'}
+                      </TableCell>
+                      <TableCell className={statusColors[evaluateSafetyStatus(joint.safetyFactorOverturning)]}>
+                        {formatNumber(joint.safetyFactorOverturning)}
+                      </TableCell>
+                      <TableCell>{joint.verticalReaction > 0 ? formatNumber(joint.resultantFromHeel) : '-'}</TableCell>
+                      <TableCell className={statusColors[joint.status]}>
+                        {joint.withinMiddleThird ? 'Within' : 'Outside'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
             </div>
           </div>
+        )}
+        
+        <div className="mb-10 animate-fade-up">
+          <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4">
+            Face Stresses (Gravity Method)
+          </h2>
+          
+          <div className="bg-white/5 rounded-xl border border-white/10">
+            <Table>
+              <TableHeader>
+                <TableRow className="border-white/10 hover:bg-transparent">
+                  <TableHead className="text-white/60">Elevation ({unitSuffix})</TableHead>
+                  <TableHead className="text-white/60">Upstream σz</TableHead>
+                  <TableHead className="text-white/60">Upstream τ</TableHead>
+                  <TableHead className="text-white/60">Upstream σ1 / σ3</TableHead>
+                  <TableHead className="text-white/60">Downstream σz</TableHead>
+                  <TableHead className="text-white/60">Downstream τ</TableHead>
+                  <TableHead className="text-white/60">Downstream σ1 / σ3</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {[...results.faceStresses].reverse().map(section => (
+                  <TableRow key={section.elevation} className="border-white/10 hover:bg-white/5">
+                    <TableCell>{formatNumber(section.elevation)}</TableCell>
+                    {[section.upstream, section.downstream].map((face, index) => (
+                      <React.Fragment key={index}>
+                        <TableCell>{formatNumber(face.verticalStress)}</TableCell>
+                        <TableCell>{formatNumber(face.shearStress)}</TableCell>
+                        <TableCell className={face.minorPrincipalStress < 0 ? statusColors.danger : ''}>
+                          {formatNumber(face.majorPrincipalStress)} / {formatNumber(face.minorPrincipalStress)}
+                        </TableCell>
+                      </React.Fragment>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          
+          <p className="text-sm text-white/60 mt-2">
+            Stresses in {stressSuffix}, compression positive and without uplift
+          </p>
         </div>
         
+        {results.finiteElement && (
+          <div className="mb-10">
+            <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4 animate-fade-up">
+              Finite Element Analysis
+            </h2>
+            
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="animate-fade-up">
+                <FiniteElementPlot results={results.finiteElement} unitSystem={inputs.unitSystem} />
+              </div>
+              
+              <div className="space-y-4">
+                <CalculationCard
+                  title="Crest Displacement"
+                  value={results.finiteElement.crestDisplacement * (inputs.unitSystem === 'metric' ? 1000 : 12)}
+                  unit={inputs.unitSystem === 'metric' ? 'mm' : 'in'}
+                  description="Horizontal movement toward the toe"
+                  delay={1}
+                />
+                
+                <CalculationCard
+                  title="Heel Stress"
+                  value={results.finiteElement.heelStress}
+                  unit={stressSuffix}
+                  description={`Contact stress after uplift - gravity method: ${formatNumber(results.finiteElement.gravityHeelStress ?? 0)} ${stressSuffix}`}
+                  delay={2}
+                />
+                
+                <CalculationCard
+                  title="Toe Stress"
+                  value={results.finiteElement.toeStress}
+                  unit={stressSuffix}
+                  description={`Contact stress after uplift - gravity method: ${formatNumber(results.finiteElement.gravityToeStress ?? 0)} ${stressSuffix}`}
+                  delay={3}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+        
         <div className="mb-10">
           <CalculationSteps steps={results.calculationSteps} />
         </div>
@@ -140,18 +474,52 @@ const Results = () => {
               title="Hydrostatic Uplift"
               value={results.hydrostaticUplift}
               unit={forceSuffix}
-              description="Upward water pressure"
+              description={results.seepage 
+                ? 'From the foundation seepage model' 
+                : results.weirCreep ? "From Khosla's floor pressures" : 'Upward water pressure'}
               delay={4}
             />
             
+            {results.seepage && (
+              <CalculationCard
+                title="Seepage Discharge"
+                value={results.seepage.discharge * 86400}
+                unit={`${unitSuffix}³/day per ${unitSuffix}`}
+                description={results.seepage.converged ? 'Flow under the dam per unit length' : 'Seepage solution not fully converged'}
+                delay={4}
+              />
+            )}
+            
             <CalculationCard
               title="Hydrostatic Pressure"
               value={results.hydrostaticPressure}
               unit={forceSuffix}
-              description="Horizontal water pressure"
+              description={results.overtoppingDepth !== undefined 
+                ? `Horizontal water pressure - pool ${formatNumber(results.overtoppingDepth)} ${unitSuffix} above the crest` 
+                : 'Horizontal water pressure'}
               delay={5}
             />
             
+            {results.hydrodynamicPressure !== undefined && (
+              <CalculationCard
+                title="Hydrodynamic Pressure"
+                value={results.hydrodynamicPressure}
+                unit={forceSuffix}
+                description="Westergaard reservoir thrust during earthquake"
+                delay={5}
+              />
+            )}
+            
+            {results.nappeWeight !== undefined && (
+              <CalculationCard
+                title="Nappe Weight"
+                value={results.nappeWeight}
+                unit={forceSuffix}
+                description="Overflow resting on the crest"
+                delay={5}
+              />
+            )}
+            
             <CalculationCard
               title="Vertical Reaction (Ry)"
               value={results.verticalReaction}
@@ -172,12 +540,47 @@ const Results = () => {
               title="Location of Ry"
               value={results.locationOfRy}
               unit={unitSuffix}
-              description="From left edge"
+              description={inputs.momentReference === 'toe' ? 'From toe (right edge)' : 'From heel (left edge)'}
               delay={8}
             />
           </div>
         </div>
         
+        <div className="mb-8">
+          <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4 animate-fade-up animate-delay-500">
+            Base Pressure
+          </h2>
+          
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            <CalculationCard
+              title="Eccentricity (e)"
+              value={results.basePressure.eccentricity}
+              unit={unitSuffix}
+              description={`From the base centre, positive toward the toe, limit ±${formatNumber(inputs.baseWidth / 6)} ${unitSuffix}`}
+              withStatus
+              status={results.basePressure.status}
+              statusLabel={getKernStatusLabel()}
+              delay={8}
+            />
+            
+            <CalculationCard
+              title="Heel Stress"
+              value={results.basePressure.heelStress}
+              unit={stressSuffix}
+              description={results.basePressure.heelStress < 0 ? 'Tension at the heel' : 'Compression at the heel'}
+              delay={9}
+            />
+            
+            <CalculationCard
+              title="Toe Stress"
+              value={results.basePressure.toeStress}
+              unit={stressSuffix}
+              description={results.basePressure.toeStress < 0 ? 'Tension at the toe' : 'Compression at the toe'}
+              delay={10}
+            />
+          </div>
+        </div>
+        
         <div className="mb-8">
           <h2 className="text-lg font-medium border-b border-white/10 pb-2 mb-4 animate-fade-up animate-delay-600">
             Moments
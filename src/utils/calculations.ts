@@ -1,5 +1,9 @@
 
-import { DamInputs, CalculationResults, StructureType, WaterDensityUnit, CalculationStep, MassUnit } from './types';
+import { DamInputs, CalculationResults, StructureType, WaterDensityUnit, CalculationStep, MassUnit, CrackedBaseResults, BasePressureResults, SafetyStatus, MomentReference, CustomLoad, UpliftProfilePoint, WedgeAnalysisResults, LiftJointResult, FaceStressResults, FaceStressSection, FiniteElementResults, SeepageResults, WeirCreepResults } from './types';
+import { analyzeSlidingWedges } from './wedgeAnalysis';
+import { analyzeFiniteElement } from './finiteElement';
+import { analyzeSeepage, solveSeepagePotential, SeepagePotential } from './seepage';
+import { analyzeWeirCreep } from './weirCreep';
 
 // Convert between kg/m³ and kN/m³
 export const convertWaterDensity = (
@@ -69,24 +73,20 @@ const getVolumeFormula = (structureType: StructureType): string => {
 };
 
 // Calculate center of gravity X position based on structural type
-// This is measured from the left (heel) of the dam
+// This is measured from the left (heel) of the dam. Every section lies between its two faces, so the
+// centroid follows from the face projections u and d and the crest c = B - u - d:
+// x = (B² - B × d + (d² - u²) / 3) / (B + c)
 const calculateCenterOfGravity = (inputs: DamInputs): number => {
   const { structureType, baseWidth, crestWidth } = inputs;
   
-  switch (structureType) {
-    case 'rectangle':
-      return baseWidth / 2;
-    case 'triangle':
-      return baseWidth / 3;
-    case 'trapezoid':
-      // For trapezoid, we need both base width and crest width
-      if (!crestWidth) throw new Error('Crest width required for trapezoid');
-      
-      // Formula for centroid of a trapezoid from the left edge (heel)
-      return (baseWidth + (2 * crestWidth)) / (3 * (baseWidth + crestWidth)) * baseWidth;
-    default:
-      throw new Error('Invalid structure type');
-  }
+  // For trapezoid, we need both base width and crest width
+  if (structureType === 'trapezoid' && !crestWidth) throw new Error('Crest width required for trapezoid');
+  
+  const { upstream, downstream } = getFaceProjections(inputs);
+  const crest = baseWidth - upstream - downstream;
+  
+  return (baseWidth * baseWidth - baseWidth * downstream + (downstream * downstream - upstream * upstream) / 3) 
+    / (baseWidth + crest);
 };
 
 // Calculate the center of gravity height (Y) from the base
@@ -114,46 +114,639 @@ const getCenterOfGravityFormula = (structureType: StructureType): string => {
     case 'triangle':
       return 'baseWidth / 3';
     case 'trapezoid':
-      return '(baseWidth + 2 × crestWidth) / (3 × (baseWidth + crestWidth)) × baseWidth';
+      return 'baseWidth / 2 (faces with equal slopes)';
     default:
       return '';
   }
 };
 
+// Get the point moments are taken about (heel by default)
+const getMomentReference = (inputs: DamInputs): MomentReference => inputs.momentReference ?? 'heel';
+
+// Get the horizontal projection of the upstream and downstream faces
+// The triangle has a vertical upstream face, the trapezoid is symmetric
+const getFaceProjections = (inputs: DamInputs): { upstream: number; downstream: number } => {
+  const { structureType, baseWidth, crestWidth = 0 } = inputs;
+  
+  switch (structureType) {
+    case 'rectangle':
+      return { upstream: 0, downstream: 0 };
+    case 'triangle':
+      return { upstream: 0, downstream: baseWidth };
+    case 'trapezoid':
+      return {
+        upstream: (baseWidth - crestWidth) / 2,
+        downstream: (baseWidth - crestWidth) / 2
+      };
+    default:
+      throw new Error('Invalid structure type');
+  }
+};
+
+// Get water unit weight in kN/m³ (or lb/ft³ for imperial)
+const getWaterUnitWeight = (inputs: DamInputs): number => {
+  return inputs.waterDensityUnit === 'kg/m³' 
+    ? convertWaterDensity(inputs.waterDensity, 'kg/m³', 'kN/m³') 
+    : inputs.waterDensity;
+};
+
+// Get the uplift head at the toe
+// Tailwater sets the minimum head at the toe when it is higher than the given value
+const getToeUpliftHead = (inputs: DamInputs): number => {
+  const { toeUplift = 0, tailwaterLevel = 0 } = inputs;
+  return Math.max(toeUplift, tailwaterLevel);
+};
+
+// Check whether a drain line lies within the base
+const hasDrainLine = (inputs: DamInputs): boolean => {
+  const { drainDistance, baseWidth } = inputs;
+  return drainDistance !== undefined && drainDistance > 0 && drainDistance < baseWidth;
+};
+
+// Get the uplift head at the drain line (USACE EM 1110-2-2200)
+// H3 = H2 + (1 - E) × (H1 - H2) × (L - X) / L, where L is the uncracked base length
+const getDrainUpliftHead = (inputs: DamInputs, crackLength: number = 0): number => {
+  const { baseWidth, drainDistance = 0, drainEfficiency = 0 } = inputs;
+  const heelUplift = getHeelUpliftHead(inputs, crackLength);
+  const toeUplift = getToeUpliftHead(inputs);
+  const efficiency = Math.min(Math.max(drainEfficiency, 0), 100) / 100;
+  
+  return toeUplift + (1 - efficiency) * (heelUplift - toeUplift) * (baseWidth - drainDistance) / (baseWidth - crackLength);
+};
+
+// Solve the foundation seepage model (if defined) under the current base
+// The normalised potential does not depend on the pool, so one solution serves every water level.
+const solveFoundationSeepage = (inputs: DamInputs): SeepagePotential | undefined => {
+  return inputs.seepage ? solveSeepagePotential(inputs.seepage, inputs.baseWidth) : undefined;
+};
+
+// Scale the seepage solution to the current pool and tailwater (if the foundation is modelled)
+const getSeepage = (inputs: DamInputs, potential: SeepagePotential | undefined): SeepageResults | undefined => {
+  if (!potential) return undefined;
+  
+  return analyzeSeepage(potential, {
+    waterLevel: inputs.waterLevel,
+    tailwaterLevel: inputs.tailwaterLevel ?? 0
+  });
+};
+
+// Carry the seepage heads along the base as the uplift profile
+// The seepage model replaces all other uplift inputs, so its profile takes the place of the piezometer readings.
+const withSeepageProfile = (inputs: DamInputs, potential: SeepagePotential | undefined): DamInputs => {
+  const seepage = getSeepage(inputs, potential);
+  return seepage ? { ...inputs, upliftProfile: seepage.upliftProfile } : inputs;
+};
+
+// Check the weir floor by the creep and Khosla methods for the current pool and tailwater (if defined)
+const getWeirCreep = (inputs: DamInputs): WeirCreepResults | undefined => {
+  if (!inputs.weirFoundation) return undefined;
+  
+  return analyzeWeirCreep(inputs.weirFoundation, {
+    baseWidth: inputs.baseWidth,
+    waterLevel: inputs.waterLevel,
+    tailwaterLevel: inputs.tailwaterLevel ?? 0
+  });
+};
+
+// Get the piezometer readings that lie within the base, sorted from the heel
+// At least two readings are needed to describe a profile; the weir floor supplies its own, and the
+// seepage model's profile is set in place of the readings before the analysis (see withSeepageProfile).
+const getUpliftProfile = (inputs: DamInputs): UpliftProfilePoint[] | undefined => {
+  const weirCreep = getWeirCreep(inputs);
+  if (weirCreep) return weirCreep.upliftProfile;
+  
+  const points = (inputs.upliftProfile ?? [])
+    .filter(point => point.distance >= 0 && point.distance <= inputs.baseWidth)
+    .sort((a, b) => a.distance - b.distance);
+  
+  return points.length >= 2 ? points : undefined;
+};
+
+// Interpolate the measured head at a distance from the heel
+// Heads are held constant between the base edges and the outermost readings
+// Where the head drops across a sheet pile, fromRight gives the head just downstream of the drop
+const getProfileHeadAt = (profile: UpliftProfilePoint[], distance: number, fromRight: boolean = false): number => {
+  if (distance < profile[0].distance || (!fromRight && distance === profile[0].distance)) return profile[0].head;
+  
+  for (let i = 1; i < profile.length; i++) {
+    const previous = profile[i - 1];
+    const next = profile[i];
+    if (fromRight ? distance < next.distance : distance <= next.distance) {
+      const span = next.distance - previous.distance;
+      return span > 0 
+        ? previous.head + (next.head - previous.head) * (distance - previous.distance) / span 
+        : next.head;
+    }
+  }
+  
+  return profile[profile.length - 1].head;
+};
+
+// Get the uplift head at the heel, or at the crack tip when the base is cracked
+// A crack fills with the full reservoir head
+const getHeelUpliftHead = (inputs: DamInputs, crackLength: number = 0): number => {
+  const { heelUplift = 0, waterLevel } = inputs;
+  const profile = getUpliftProfile(inputs);
+  const heelHead = profile ? getProfileHeadAt(profile, 0) : heelUplift;
+  return crackLength > 0 ? Math.max(heelHead, waterLevel) : heelHead;
+};
+
+// Get the uplift diagram as linear segments along the base, measured from the heel
+// Without drains this is a single heel-to-toe trapezoid, with drains it is bilinear,
+// and with piezometer readings it follows the measured profile.
+// A crack carries the full heel head over its length; drains it passes are lost.
+const getUpliftSegments = (
+  inputs: DamInputs,
+  crackLength: number = 0
+): { start: number; end: number; startHead: number; endHead: number }[] => {
+  const { baseWidth, drainDistance = 0 } = inputs;
+  const heelUplift = getHeelUpliftHead(inputs, crackLength);
+  const toeUplift = getToeUpliftHead(inputs);
+  
+  const segments = crackLength > 0 
+    ? [{ start: 0, end: crackLength, startHead: heelUplift, endHead: heelUplift }] 
+    : [];
+  
+  // Piezometer readings replace the heel-to-toe diagram beyond the crack
+  const profile = getUpliftProfile(inputs);
+  if (profile) {
+    const breakpoints = [
+      crackLength,
+      ...profile.map(point => point.distance).filter(distance => distance > crackLength && distance < baseWidth),
+      baseWidth
+    ];
+    
+    for (let i = 1; i < breakpoints.length; i++) {
+      segments.push({
+        start: breakpoints[i - 1],
+        end: breakpoints[i],
+        startHead: getProfileHeadAt(profile, breakpoints[i - 1], true),
+        endHead: getProfileHeadAt(profile, breakpoints[i])
+      });
+    }
+    return segments;
+  }
+  
+  if (!hasDrainLine(inputs) || drainDistance <= crackLength) {
+    segments.push({ start: crackLength, end: baseWidth, startHead: heelUplift, endHead: toeUplift });
+    return segments;
+  }
+  
+  const drainHead = getDrainUpliftHead(inputs, crackLength);
+  segments.push(
+    { start: crackLength, end: drainDistance, startHead: heelUplift, endHead: drainHead },
+    { start: drainDistance, end: baseWidth, startHead: drainHead, endHead: toeUplift }
+  );
+  return segments;
+};
+
 // Calculate hydrostatic uplift area
-const calculateUpliftArea = (inputs: DamInputs): number => {
-  const { baseWidth, heelUplift = 0, toeUplift = 0 } = inputs;
+const calculateUpliftArea = (inputs: DamInputs, crackLength: number = 0): number => {
+  const heelUplift = getHeelUpliftHead(inputs, crackLength);
+  const toeUplift = getToeUpliftHead(inputs);
   
   // If no uplift is specified, return 0
-  if (heelUplift === 0 && toeUplift === 0) return 0;
+  if (!getUpliftProfile(inputs) && heelUplift === 0 && toeUplift === 0) return 0;
+  
+  // Sum the trapezoidal areas of the uplift diagram
+  return getUpliftSegments(inputs, crackLength).reduce(
+    (area, segment) => area + ((segment.startHead + segment.endHead) / 2) * (segment.end - segment.start),
+    0
+  );
+};
+
+// Calculate the centroid of the uplift diagram from the heel
+const calculateUpliftCentroid = (inputs: DamInputs, crackLength: number = 0): number => {
+  const upliftArea = calculateUpliftArea(inputs, crackLength);
   
-  // Calculate trapezoidal area for uplift
-  return ((heelUplift + toeUplift) / 2) * baseWidth;
+  if (upliftArea === 0) return inputs.baseWidth / 2;
+  
+  // Each trapezoid acts at length × (h1 + 2 × h2) / (3 × (h1 + h2)) from its start
+  const firstMoment = getUpliftSegments(inputs, crackLength).reduce((moment, segment) => {
+    const length = segment.end - segment.start;
+    const area = ((segment.startHead + segment.endHead) / 2) * length;
+    if (area === 0) return moment;
+    const centroid = segment.start
+      + length * (segment.startHead + 2 * segment.endHead) / (3 * (segment.startHead + segment.endHead));
+    return moment + area * centroid;
+  }, 0);
+  
+  return firstMoment / upliftArea;
+};
+
+// Get the depth of the pool above the crest (zero unless the dam is overtopped)
+const getOvertoppingDepth = (inputs: DamInputs): number => {
+  return Math.max(inputs.waterLevel - inputs.height, 0);
 };
 
 // Calculate hydrostatic pressure (water force)
 const calculateHydrostaticPressure = (inputs: DamInputs): number => {
-  const { waterDensity, waterDensityUnit, waterLevel } = inputs;
+  const { waterLevel } = inputs;
+  const overtoppingDepth = getOvertoppingDepth(inputs);
   
   // Convert waterDensity to kN/m³ for calculations if needed
-  const densityInKN = waterDensityUnit === 'kg/m³' 
-    ? convertWaterDensity(waterDensity, 'kg/m³', 'kN/m³') 
-    : waterDensity;
+  const densityInKN = getWaterUnitWeight(inputs);
   
   // Force = density × waterLevel² / 2 (triangular pressure distribution)
-  return densityInKN * (waterLevel * waterLevel) / 2;
+  // An overtopped dam only carries the trapezoidal part of the triangle below the crest
+  return densityInKN * (waterLevel * waterLevel - overtoppingDepth * overtoppingDepth) / 2;
+};
+
+// Get the height of the hydrostatic thrust above the base
+// h / 3 for a triangular distribution, H × (3h - 2H) / (3 × (2h - H)) for the trapezoid of an overtopped dam
+const getHydrostaticPressureHeight = (inputs: DamInputs): number => {
+  const { waterLevel, height } = inputs;
+  
+  if (getOvertoppingDepth(inputs) === 0) return waterLevel / 3;
+  
+  return height * (3 * waterLevel - 2 * height) / (3 * (2 * waterLevel - height));
+};
+
+// Calculate weight of the overflowing nappe resting on the crest
+// Flow over a broad crest passes through critical depth, taken as 2/3 of the head above the crest
+const calculateNappeWeight = (inputs: DamInputs): { weight: number; depth: number; leverArm: number } => {
+  const { baseWidth } = inputs;
+  const { upstream, downstream } = getFaceProjections(inputs);
+  const crestLength = baseWidth - upstream - downstream;
+  const depth = (2 / 3) * getOvertoppingDepth(inputs);
+  
+  // A closed crest gate holds back the pool, so nothing flows over the crest
+  if (depth === 0 || crestLength <= 0 || hasGate(inputs)) return { weight: 0, depth: 0, leverArm: 0 };
+  
+  return {
+    weight: getWaterUnitWeight(inputs) * crestLength * depth,
+    depth,
+    leverArm: upstream + crestLength / 2
+  };
+};
+
+// Calculate tailwater thrust on the downstream face (acts upstream)
+const calculateTailwaterPressure = (inputs: DamInputs): number => {
+  const { tailwaterLevel = 0 } = inputs;
+  
+  return getWaterUnitWeight(inputs) * (tailwaterLevel * tailwaterLevel) / 2;
+};
+
+// Calculate weight of reservoir water resting on a battered upstream face
+// The water wedge is a triangle with height waterLevel and width waterLevel × (upstream projection / height)
+// When the dam is overtopped, the pool above the crest adds a rectangular block over the whole face
+const calculateUpstreamWaterWeight = (inputs: DamInputs): { weight: number; leverArm: number } => {
+  const { height, waterLevel } = inputs;
+  const { upstream } = getFaceProjections(inputs);
+  
+  if (waterLevel <= 0 || upstream === 0) return { weight: 0, leverArm: 0 };
+  
+  // Horizontal width of the wedge at the water surface
+  const wedgeHeight = Math.min(waterLevel, height);
+  const wedgeWidth = (upstream / height) * wedgeHeight;
+  const wedgeArea = wedgeWidth * wedgeHeight / 2;
+  const blockArea = upstream * getOvertoppingDepth(inputs);
+  
+  return {
+    weight: getWaterUnitWeight(inputs) * (wedgeArea + blockArea),
+    leverArm: (wedgeArea * wedgeWidth / 3 + blockArea * upstream / 2) / (wedgeArea + blockArea)
+  };
+};
+
+// Get the Rankine active pressure coefficient for the silt
+// Ka = (1 - sin φ) / (1 + sin φ) unless a coefficient is given directly
+const getSiltPressureCoefficient = (inputs: DamInputs): number => {
+  const { siltPressureCoefficient, siltFrictionAngle = 0 } = inputs;
+  
+  if (siltPressureCoefficient !== undefined) return siltPressureCoefficient;
+  
+  const sinPhi = Math.sin(siltFrictionAngle * Math.PI / 180);
+  return (1 - sinPhi) / (1 + sinPhi);
+};
+
+// Calculate horizontal silt thrust on the upstream face (triangular distribution)
+const calculateSiltPressure = (inputs: DamInputs): number => {
+  const { siltDepth = 0, siltUnitWeight = 0 } = inputs;
+  
+  if (siltDepth === 0) return 0;
+  
+  return getSiltPressureCoefficient(inputs) * siltUnitWeight * (siltDepth * siltDepth) / 2;
+};
+
+// Calculate weight of silt resting on a battered upstream face
+const calculateSiltWeight = (inputs: DamInputs): { weight: number; leverArm: number } => {
+  const { height, siltDepth = 0, siltUnitWeight = 0 } = inputs;
+  const { upstream } = getFaceProjections(inputs);
+  
+  if (siltDepth === 0 || upstream === 0) return { weight: 0, leverArm: 0 };
+  
+  // Horizontal width of the wedge at the top of the deposit
+  const wedgeWidth = (upstream / height) * siltDepth;
+  
+  return {
+    weight: siltUnitWeight * wedgeWidth * siltDepth / 2,
+    leverArm: wedgeWidth / 3
+  };
+};
+
+// Get the upstream face angle from the horizontal in degrees (90° for a vertical face)
+const getUpstreamFaceAngle = (inputs: DamInputs): number => {
+  const { upstream } = getFaceProjections(inputs);
+  
+  if (upstream === 0) return 90;
+  
+  return Math.atan(inputs.height / upstream) * 180 / Math.PI;
+};
+
+// Get the depth of the whole reservoir, which sets the hydrodynamic pressure and the wind setup
+// Above a lift joint the section only sees the upper waterLevel of it.
+const getReservoirDepth = (inputs: DamInputs): number => inputs.reservoirDepth ?? inputs.waterLevel;
+
+// Calculate hydrodynamic reservoir force during an earthquake
+// Westergaard's parabolic approximation p = (7/8) × kh × γ × √(H × y) integrates to (7/12) × kh × γ × √H × h^1.5
+// over the upper h of a reservoir H deep, which is (7/12) × kh × γ × h² for the full depth of a vertical face.
+// An overtopped dam only carries the part below the crest, from the overtopping depth d down to h.
+// Zangar's coefficient Cm varies linearly with the face angle, so inclined faces are scaled by θ / 90°.
+const calculateHydrodynamicPressure = (inputs: DamInputs): number => {
+  const { waterLevel, horizontalSeismicCoefficient = 0 } = inputs;
+  
+  if (horizontalSeismicCoefficient === 0 || waterLevel <= 0) return 0;
+  
+  const zangarCorrection = getUpstreamFaceAngle(inputs) / 90;
+  
+  return (7 / 12) * horizontalSeismicCoefficient * getWaterUnitWeight(inputs) * Math.sqrt(getReservoirDepth(inputs))
+    * (Math.pow(waterLevel, 1.5) - Math.pow(getOvertoppingDepth(inputs), 1.5)) * zangarCorrection;
+};
+
+// Get the height of the hydrodynamic thrust above the base
+// 0.4 × h for the full parabola, h - 0.6 × (h^2.5 - d^2.5) / (h^1.5 - d^1.5) for the part below the crest
+const getHydrodynamicPressureHeight = (inputs: DamInputs): number => {
+  const { waterLevel } = inputs;
+  const overtoppingDepth = getOvertoppingDepth(inputs);
+  
+  if (overtoppingDepth === 0) return 0.4 * waterLevel;
+  
+  return waterLevel - 0.6 * (Math.pow(waterLevel, 2.5) - Math.pow(overtoppingDepth, 2.5))
+    / (Math.pow(waterLevel, 1.5) - Math.pow(overtoppingDepth, 1.5));
+};
+
+// Calculate wind-wave parameters from fetch, wind speed and duration
+// Returns the effective fetch, the significant wave height (Molitor/Stevenson) and the wind setup (Zuider Zee)
+const calculateWaveParameters = (inputs: DamInputs): { effectiveFetch: number; waveHeight: number; windSetup: number } => {
+  const { fetchLength = 0, windSpeed = 0, windDuration, unitSystem } = inputs;
+  const reservoirDepth = getReservoirDepth(inputs);
+  
+  if (fetchLength === 0 || windSpeed === 0) return { effectiveFetch: 0, waveHeight: 0, windSetup: 0 };
+  
+  const isMetric = unitSystem === 'metric';
+  
+  // A short wind duration limits wave growth; convert it to an equivalent fetch using
+  // the SPM deep-water relation g·t/U = 68.8 × (g·F/U²)^(2/3), evaluated in SI units
+  let effectiveFetch = fetchLength;
+  if (windDuration !== undefined && windDuration > 0) {
+    const g = 9.81;
+    const windSpeedSI = isMetric ? windSpeed / 3.6 : windSpeed * 0.44704;
+    const durationSI = windDuration * 3600;
+    const limitedFetchSI = (windSpeedSI * windSpeedSI / g) * Math.pow(g * durationSI / (68.8 * windSpeedSI), 1.5);
+    const limitedFetch = isMetric ? limitedFetchSI / 1000 : limitedFetchSI / 1609.34;
+    effectiveFetch = Math.min(fetchLength, limitedFetch);
+  }
+  
+  // Molitor/Stevenson: metric (km, km/h → m), imperial (miles, mph → ft)
+  const longFetch = isMetric ? 32 : 20;
+  const speedFetchTerm = (isMetric ? 0.032 : 0.17) * Math.sqrt(windSpeed * effectiveFetch);
+  const waveHeight = effectiveFetch >= longFetch 
+    ? speedFetchTerm 
+    : speedFetchTerm + (isMetric ? 0.763 : 2.5) - (isMetric ? 0.271 : 1) * Math.pow(effectiveFetch, 0.25);
+  
+  // Zuider Zee wind setup using the reservoir depth as the mean depth along the fetch
+  const windSetup = reservoirDepth > 0 
+    ? (windSpeed * windSpeed * effectiveFetch) / ((isMetric ? 62800 : 1400) * reservoirDepth) 
+    : 0;
+  
+  return { effectiveFetch, waveHeight: Math.max(waveHeight, 0), windSetup };
+};
+
+// Resolve each anchor row into vertical and horizontal components
+// The anchor line crosses the base at its position, so only the vertical component has a lever arm
+const calculateAnchorForces = (inputs: DamInputs) => {
+  const rows = (inputs.anchors ?? [])
+    .filter(anchor => anchor.force > 0)
+    .map(anchor => {
+      const angle = anchor.inclination * Math.PI / 180;
+      return {
+        ...anchor,
+        vertical: anchor.force * Math.cos(angle),
+        horizontal: anchor.force * Math.sin(angle)
+      };
+    });
+  
+  return {
+    rows,
+    vertical: rows.reduce((sum, row) => sum + row.vertical, 0),
+    horizontal: rows.reduce((sum, row) => sum + row.horizontal, 0)
+  };
+};
+
+// Resolve a custom load into its resultant, vertical and horizontal components and point of action
+// A distributed load is uniform along the line from its start to its end, so its resultant acts at the midpoint
+const resolveCustomLoad = (load: CustomLoad) => {
+  const isDistributed = load.type === 'distributed';
+  const endX = isDistributed ? load.endX ?? load.x : load.x;
+  const endY = isDistributed ? load.endY ?? load.y : load.y;
+  const length = Math.sqrt(Math.pow(endX - load.x, 2) + Math.pow(endY - load.y, 2));
+  const resultant = isDistributed ? load.magnitude * length : load.magnitude;
+  const angle = load.angle * Math.PI / 180;
+  
+  return {
+    ...load,
+    length,
+    resultant,
+    vertical: resultant * Math.cos(angle),
+    horizontal: resultant * Math.sin(angle),
+    actionX: (load.x + endX) / 2,
+    actionY: (load.y + endY) / 2
+  };
+};
+
+// Resolve every custom load; vertical loads act downward and horizontal loads act toward the toe
+const calculateCustomLoads = (inputs: DamInputs) => {
+  const loads = (inputs.customLoads ?? [])
+    .map(resolveCustomLoad)
+    .filter(load => load.resultant !== 0);
+  
+  return {
+    loads,
+    vertical: loads.reduce((sum, load) => sum + load.vertical, 0),
+    horizontal: loads.reduce((sum, load) => sum + load.horizontal, 0)
+  };
+};
+
+// Check whether a spillway gate is defined
+const hasGate = (inputs: DamInputs): boolean => {
+  return inputs.gateType !== undefined && (inputs.gateHeight ?? 0) > 0;
+};
+
+// Get the gate sill height above the base, which defaults to the crest
+// The face below the crest already carries the pool, so the gate only takes the water above its sill.
+const getGateSillElevation = (inputs: DamInputs): number => inputs.gateSillElevation ?? inputs.height;
+
+// Calculate the hydrostatic load on a spillway gate and the reaction it transfers to the monolith
+// A vertical-lift gate bears on the pier slots at its centre of pressure. The skin plate of a radial
+// gate is an arc about the trunnion, so the water pressure is integrated along the arc and its
+// resultant passes through the trunnion pin. The gate spans one bay, so its load per unit width
+// of gate is spread over the monolith that carries the bay and its pier.
+const calculateGateLoads = (inputs: DamInputs) => {
+  const { waterLevel, height, gateHeight = 0, gateRadius = 0, trunnionDistance = 0, trunnionElevation = 0 } = inputs;
+  const { gateBayWidth = 0, monolithWidth = 0 } = inputs;
+  const gateSillElevation = getGateSillElevation(inputs);
+  const waterDensityInKN = getWaterUnitWeight(inputs);
+  const wettedHeight = Math.min(gateHeight, waterLevel - gateSillElevation);
+  
+  if (!hasGate(inputs)) {
+    return { horizontal: 0, vertical: 0, actionX: 0, actionY: 0, reaction: 0, bayShare: 0 };
+  }
+  if (gateBayWidth <= 0 || monolithWidth <= 0) throw new Error('Gate bay and monolith widths required for a spillway gate');
+  if (gateSillElevation < height) throw new Error('Gate sill must be at or above the crest');
+  if (inputs.gateType === 'radial' && gateRadius <= 0) throw new Error('Gate radius required for a radial gate');
+  
+  // Fraction of the monolith width loaded by the gate
+  const bayShare = gateBayWidth / monolithWidth;
+  
+  if (wettedHeight <= 0) {
+    return { horizontal: 0, vertical: 0, actionX: 0, actionY: 0, reaction: 0, bayShare };
+  }
+  
+  // Pressure head at the sill and at the wetted top of the gate
+  const sillDepth = waterLevel - gateSillElevation;
+  const topDepth = sillDepth - wettedHeight;
+  const horizontal = waterDensityInKN * (sillDepth * sillDepth - topDepth * topDepth) / 2 * bayShare;
+  
+  if (inputs.gateType === 'verticalLift') {
+    // Centre of pressure above the sill from the first moment of the pressure trapezoid
+    const centreHeight = (sillDepth * wettedHeight * wettedHeight / 2 - Math.pow(wettedHeight, 3) / 3) 
+      / (sillDepth * sillDepth - topDepth * topDepth) * 2;
+    
+    return {
+      horizontal,
+      vertical: 0,
+      actionX: 0,
+      actionY: gateSillElevation + centreHeight,
+      reaction: horizontal,
+      bayShare
+    };
+  }
+  
+  // Angles of the sill and the wetted top measured at the trunnion, on the upstream side of the arc
+  const angleAt = (elevation: number): number => 
+    Math.PI - Math.asin(Math.min(Math.max((elevation - trunnionElevation) / gateRadius, -1), 1));
+  const sillAngle = angleAt(gateSillElevation);
+  const topAngle = angleAt(gateSillElevation + wettedHeight);
+  
+  // Integrate the normal pressure along the arc; each element pushes toward the trunnion
+  const segments = 100;
+  const step = (sillAngle - topAngle) / segments;
+  let arcHorizontal = 0;
+  let arcVertical = 0;
+  
+  for (let i = 0; i < segments; i++) {
+    const angle = topAngle + (i + 0.5) * step;
+    const elevation = trunnionElevation + gateRadius * Math.sin(angle);
+    const pressure = waterDensityInKN * Math.max(waterLevel - elevation, 0);
+    arcHorizontal -= pressure * gateRadius * step * Math.cos(angle);
+    arcVertical += pressure * gateRadius * step * Math.sin(angle);
+  }
+  
+  return {
+    horizontal: arcHorizontal * bayShare,
+    vertical: arcVertical * bayShare,
+    actionX: trunnionDistance,
+    actionY: trunnionElevation,
+    reaction: Math.sqrt(arcHorizontal * arcHorizontal + arcVertical * arcVertical) * bayShare,
+    bayShare
+  };
+};
+
+// Get the height of the ice load above the base
+// The ice sheet bears on the face or a crest gate, so the calculator keeps it at or below the crest of an ungated overtopped dam.
+const getIceLoadHeight = (inputs: DamInputs): number => {
+  const { waterLevel, iceDepth = 0 } = inputs;
+  return Math.max(waterLevel - iceDepth, 0);
+};
+
+// Calculate weight of tailwater resting on a sloped downstream face
+// The water wedge is a triangle with height tailwaterLevel and width tailwaterLevel × (downstream projection / height)
+const calculateTailwaterWeight = (inputs: DamInputs): { weight: number; leverArm: number } => {
+  const { baseWidth, height, tailwaterLevel = 0 } = inputs;
+  const { downstream } = getFaceProjections(inputs);
+  
+  if (tailwaterLevel === 0 || downstream === 0) return { weight: 0, leverArm: 0 };
+  
+  // Horizontal width of the wedge at the tailwater surface
+  const wedgeWidth = (downstream / height) * tailwaterLevel;
+  
+  return {
+    weight: getWaterUnitWeight(inputs) * wedgeWidth * tailwaterLevel / 2,
+    leverArm: baseWidth - wedgeWidth / 3
+  };
+};
+
+// Resolve the resultant normal and parallel to the foundation plane
+// A plane rising toward the toe (α > 0) makes the dam slide uphill: N = V·cosα + H·sinα, T = H·cosα - V·sinα
+const resolveOnFoundationPlane = (
+  verticalReaction: number,
+  horizontalReaction: number,
+  inclination: number = 0
+): { normal: number; driving: number } => {
+  const angle = inclination * Math.PI / 180;
+  return {
+    normal: verticalReaction * Math.cos(angle) + horizontalReaction * Math.sin(angle),
+    driving: horizontalReaction * Math.cos(angle) - verticalReaction * Math.sin(angle)
+  };
 };
 
+// Label for a sliding factor when nothing drives the dam along its base
+const noSlidingLabel = 'No sliding tendency';
+
+// Check whether a sliding factor has a real driving force behind it
+const hasSlidingTendency = (factor: number | undefined): boolean => factor === undefined || Number.isFinite(factor);
+
 // Calculate sliding safety factor
+// Without a positive driving force the dam cannot slide, which is reported as an infinite factor
 const calculateSlidingSafetyFactor = (
   verticalReaction: number, 
   horizontalReaction: number, 
   frictionCoefficient?: number,
-  needsFrictionCalculation: boolean = true
+  needsFrictionCalculation: boolean = true,
+  inclination: number = 0
 ): number | undefined => {
   if (!needsFrictionCalculation || frictionCoefficient === undefined) return undefined;
   
-  return (frictionCoefficient * verticalReaction) / horizontalReaction;
+  const { normal, driving } = resolveOnFoundationPlane(verticalReaction, horizontalReaction, inclination);
+  if (driving <= 0) return Infinity;
+  return (frictionCoefficient * normal) / driving;
+};
+
+// Calculate shear-friction safety factor
+// SSF = (c × A + V × tanφ) / H, where A is the compressed contact area per unit length
+// The contact length is measured horizontally, so cohesion acts over contactLength / cos(α) on an inclined plane
+const calculateShearFrictionFactor = (
+  verticalReaction: number,
+  horizontalReaction: number,
+  cohesion: number,
+  frictionAngle: number,
+  contactLength: number,
+  inclination: number = 0
+): number => {
+  const tanPhi = Math.tan(frictionAngle * Math.PI / 180);
+  const { normal, driving } = resolveOnFoundationPlane(verticalReaction, horizontalReaction, inclination);
+  const planeLength = contactLength / Math.cos(inclination * Math.PI / 180);
+  if (driving <= 0) return Infinity;
+  return (cohesion * planeLength + normal * tanPhi) / driving;
+};
+
+// Calculate flotation safety factor
+// FSf = (weight + surcharges) / uplift, undefined when there is no uplift
+const calculateFlotationFactor = (verticalReaction: number, hydrostaticUplift: number): number | undefined => {
+  if (hydrostaticUplift <= 0) return undefined;
+  
+  // The downward loads are everything in the vertical reaction except the uplift
+  return (verticalReaction + hydrostaticUplift) / hydrostaticUplift;
 };
 
 // Calculate overturning safety factor
@@ -164,6 +757,41 @@ const calculateOverturningFactor = (
   return rightingMoment / (overturningMoment === 0 ? 1 : overturningMoment);
 };
 
+// Calculate base contact pressures from the resultant position
+// σ = V / B × (1 ± 6e / B), with e measured from the base centre toward the toe
+const calculateBasePressure = (
+  verticalReaction: number,
+  locationOfRy: number,
+  baseWidth: number,
+  momentReference: MomentReference
+): BasePressureResults => {
+  // A floating dam has no contact pressure to distribute
+  if (verticalReaction <= 0) {
+    return {
+      resultantFromHeel: 0,
+      eccentricity: 0,
+      heelStress: 0,
+      toeStress: 0,
+      withinMiddleThird: false,
+      status: 'danger'
+    };
+  }
+  
+  const resultantFromHeel = momentReference === 'toe' ? baseWidth - locationOfRy : locationOfRy;
+  const eccentricity = resultantFromHeel - baseWidth / 2;
+  const averageStress = verticalReaction / baseWidth;
+  const heelStress = averageStress * (1 - 6 * eccentricity / baseWidth);
+  const toeStress = averageStress * (1 + 6 * eccentricity / baseWidth);
+  const withinMiddleThird = verticalReaction > 0 && Math.abs(eccentricity) <= baseWidth / 6;
+  
+  // Outside the kern the edge away from the resultant lifts off; outside the base nothing can balance the loads
+  let status: SafetyStatus = 'safe';
+  if (!withinMiddleThird) status = 'warning';
+  if (verticalReaction <= 0 || Math.abs(eccentricity) > baseWidth / 2) status = 'danger';
+  
+  return { resultantFromHeel, eccentricity, heelStress, toeStress, withinMiddleThird, status };
+};
+
 // Solve for required water level to achieve target safety factor
 const solveForWaterLevel = (inputs: DamInputs, targetSafetyFactor: number): number => {
   let low = 0;
@@ -172,10 +800,11 @@ const solveForWaterLevel = (inputs: DamInputs, targetSafetyFactor: number): numb
   let iterations = 0;
   const maxIterations = 100;
   const tolerance = 0.001;
+  const seepagePotential = solveFoundationSeepage(inputs);
   
   while (iterations < maxIterations) {
     // Create test inputs with current water level guess
-    const testInputs = { ...inputs, waterLevel: mid };
+    const testInputs = withSeepageProfile({ ...inputs, waterLevel: mid }, seepagePotential);
     
     // Calculate results with current water level
     const { rightingMoment, overturningMoment } = calculateIntermediateResults(testInputs);
@@ -217,8 +846,9 @@ const solveForBaseWidth = (inputs: DamInputs, targetSafetyFactor: number): numbe
     // Ensure we don't evaluate at zero
     if (mid <= 0) mid = 0.1;
     
-    // Create test inputs with current base width guess
-    const testInputs = { ...inputs, baseWidth: mid };
+    // Create test inputs with current base width guess; the seepage grid follows the base
+    const baseInputs = { ...inputs, baseWidth: mid };
+    const testInputs = withSeepageProfile(baseInputs, solveFoundationSeepage(baseInputs));
     
     // Calculate results with current base width
     const intermediateResults = calculateIntermediateResults(testInputs);
@@ -252,13 +882,16 @@ const solveForBaseWidth = (inputs: DamInputs, targetSafetyFactor: number): numbe
 const solveForFrictionCoefficient = (
   verticalReaction: number, 
   horizontalReaction: number, 
-  targetSafetyFactor: number
+  targetSafetyFactor: number,
+  inclination: number = 0
 ): number => {
-  return (targetSafetyFactor * horizontalReaction) / verticalReaction;
+  const { normal, driving } = resolveOnFoundationPlane(verticalReaction, horizontalReaction, inclination);
+  return (targetSafetyFactor * driving) / normal;
 };
 
 // Calculate intermediate results for use in various calculations
-const calculateIntermediateResults = (inputs: DamInputs) => {
+// A crack length can be given to evaluate the cracked-base uplift
+const calculateIntermediateResults = (inputs: DamInputs, crackLength: number = 0) => {
   // Calculate volume and self-weight
   const volume = calculateVolume(inputs);
   const selfWeight = inputs.concreteDensity * volume;
@@ -267,38 +900,148 @@ const calculateIntermediateResults = (inputs: DamInputs) => {
   const centerOfGravity = calculateCenterOfGravity(inputs);
   
   // Calculate hydrostatic uplift
-  const upliftArea = calculateUpliftArea(inputs);
-  const waterDensityInKN = inputs.waterDensityUnit === 'kg/m³' 
-    ? convertWaterDensity(inputs.waterDensity, 'kg/m³', 'kN/m³') 
-    : inputs.waterDensity;
+  const upliftArea = calculateUpliftArea(inputs, crackLength);
+  const waterDensityInKN = getWaterUnitWeight(inputs);
   const hydrostaticUplift = waterDensityInKN * upliftArea;
   
   // Calculate hydrostatic pressure
   const hydrostaticPressure = calculateHydrostaticPressure(inputs);
   
+  // Calculate the weight of the nappe on the crest of an overtopped dam
+  const overtoppingDepth = getOvertoppingDepth(inputs);
+  const { weight: nappeWeight, depth: nappeDepth, leverArm: nappeWeightArm } = calculateNappeWeight(inputs);
+  
+  // Calculate the weight of reservoir water on the upstream face
+  const { weight: upstreamWaterWeight, leverArm: upstreamWaterWeightArm } = calculateUpstreamWaterWeight(inputs);
+  
+  // Calculate tailwater thrust and the weight of tailwater on the downstream face
+  const tailwaterPressure = calculateTailwaterPressure(inputs);
+  const { weight: tailwaterWeight, leverArm: tailwaterWeightArm } = calculateTailwaterWeight(inputs);
+  
+  // Calculate silt thrust and the weight of silt on the upstream face
+  const siltPressure = calculateSiltPressure(inputs);
+  const { weight: siltWeight, leverArm: siltWeightArm } = calculateSiltWeight(inputs);
+  
+  // Ice thrust is a line load acting horizontally at the given depth below the pool
+  const iceLoad = inputs.iceLoad ?? 0;
+  
+  // Calculate pseudo-static seismic inertia of the dam body
+  // Both inertia forces act through the centroid of the section
+  const centerOfGravityHeight = calculateCenterOfGravityHeight(inputs);
+  const horizontalSeismicForce = (inputs.horizontalSeismicCoefficient ?? 0) * selfWeight;
+  const verticalSeismicForce = (inputs.verticalSeismicCoefficient ?? 0) * selfWeight;
+  
+  // Calculate hydrodynamic reservoir force that accompanies the horizontal inertia
+  const hydrodynamicPressure = calculateHydrodynamicPressure(inputs);
+  
+  // Calculate wind-wave load (Molitor: 2 × γ × hw²) and the extra still-water thrust from wind setup
+  // Both act at the pool surface on the face or a crest gate, so the calculator does not combine them with ungated overtopping.
+  const { waveHeight, windSetup } = calculateWaveParameters(inputs);
+  const wavePressure = 2 * waterDensityInKN * waveHeight * waveHeight;
+  const setupLevel = inputs.waterLevel + windSetup;
+  const windSetupPressure = waterDensityInKN * (setupLevel * setupLevel - inputs.waterLevel * inputs.waterLevel) / 2;
+  const waveForce = wavePressure + windSetupPressure;
+  
+  // Calculate post-tensioned anchor components
+  const anchorForces = calculateAnchorForces(inputs);
+  const anchorVertical = anchorForces.vertical;
+  const anchorHorizontal = anchorForces.horizontal;
+  
+  // Calculate user-defined loads
+  const customLoads = calculateCustomLoads(inputs);
+  const customVertical = customLoads.vertical;
+  const customHorizontal = customLoads.horizontal;
+  
+  // Calculate the spillway gate reaction transferred to the monolith
+  const gateLoads = calculateGateLoads(inputs);
+  const gateHorizontal = gateLoads.horizontal;
+  const gateVertical = gateLoads.vertical;
+  
   // Calculate vertical reaction
-  const verticalReaction = selfWeight - hydrostaticUplift;
+  const verticalReaction = selfWeight - verticalSeismicForce - hydrostaticUplift + upstreamWaterWeight
+    + tailwaterWeight + siltWeight + nappeWeight + anchorVertical + customVertical + gateVertical;
   
   // Calculate horizontal reaction
-  const horizontalReaction = hydrostaticPressure;
+  const horizontalReaction = hydrostaticPressure - tailwaterPressure + siltPressure + iceLoad
+    + horizontalSeismicForce + hydrodynamicPressure + waveForce - anchorHorizontal + customHorizontal + gateHorizontal;
   
-  // Calculate righting moment based on the dam's weight about the heel
-  // Righting moment (RM) is the moment due to self-weight calculated about the left edge (heel)
-  const rightingMoment = selfWeight * centerOfGravity;
+  // Vertical loads are located from the heel; their lever arm depends on the moment reference point
+  const leverArm = (distanceFromHeel: number): number => 
+    getMomentReference(inputs) === 'toe' ? inputs.baseWidth - distanceFromHeel : distanceFromHeel;
   
-  // Calculate pressure moment (water acts at h/3 from bottom)
-  const pressureMoment = hydrostaticPressure * (inputs.waterLevel / 3);
+  // Calculate righting moment based on the dam's weight about the reference point (heel or toe)
+  // Righting moment (RM) is the moment due to self-weight acting through its center of gravity
+  // Tailwater thrust (acting at tailwaterLevel / 3) and tailwater weight also resist overturning
+  const tailwaterPressureMoment = tailwaterPressure * ((inputs.tailwaterLevel ?? 0) / 3);
+  const tailwaterWeightMoment = tailwaterWeight * leverArm(tailwaterWeightArm);
+  const siltWeightMoment = siltWeight * leverArm(siltWeightArm);
+  const upstreamWaterWeightMoment = upstreamWaterWeight * leverArm(upstreamWaterWeightArm);
+  const selfWeightMoment = selfWeight * leverArm(centerOfGravity);
+  const nappeWeightMoment = nappeWeight * leverArm(nappeWeightArm);
+  const anchorMoment = anchorForces.rows.reduce((sum, row) => sum + row.vertical * leverArm(row.position), 0);
+  const customRightingMoment = customLoads.loads.reduce((sum, load) => sum + load.vertical * leverArm(load.actionX), 0);
+  const gateRightingMoment = gateVertical * leverArm(gateLoads.actionX);
+  const rightingMoment = selfWeightMoment + upstreamWaterWeightMoment + tailwaterPressureMoment
+    + tailwaterWeightMoment + siltWeightMoment + nappeWeightMoment + anchorMoment + customRightingMoment
+    + gateRightingMoment;
+  
+  // Calculate pressure moment (water acts at h/3 from bottom, higher when the dam is overtopped)
+  const hydrostaticPressureHeight = getHydrostaticPressureHeight(inputs);
+  const pressureMoment = hydrostaticPressure * hydrostaticPressureHeight;
   
   // Calculate uplift moment
-  // The uplift force creates an overturning moment measured from the heel
-  const upliftMoment = hydrostaticUplift * inputs.baseWidth / 2;
+  // The uplift force creates an overturning moment about the reference point
+  const upliftCentroid = calculateUpliftCentroid(inputs, crackLength);
+  const upliftMoment = hydrostaticUplift * leverArm(upliftCentroid);
+  
+  // Calculate silt moment (silt thrust acts at siltDepth / 3 from bottom)
+  const siltMoment = siltPressure * ((inputs.siltDepth ?? 0) / 3);
+  
+  // Calculate ice moment about the base
+  const iceMoment = iceLoad * getIceLoadHeight(inputs);
+  
+  // Calculate seismic inertia moment
+  // Horizontal inertia acts at the centroid height, vertical inertia lifts the centroid
+  const seismicMoment = horizontalSeismicForce * centerOfGravityHeight + verticalSeismicForce * leverArm(centerOfGravity);
+  
+  // Calculate hydrodynamic moment (Westergaard resultant acts at 0.4 × waterLevel from bottom, lower when overtopped)
+  const hydrodynamicMoment = hydrodynamicPressure * getHydrodynamicPressureHeight(inputs);
+  
+  // Calculate wave moment
+  // Molitor's wave resultant acts 3/8 × hw above the (raised) still-water level
+  const waveMoment = wavePressure * (setupLevel + 0.375 * waveHeight)
+    + waterDensityInKN * (Math.pow(setupLevel, 3) - Math.pow(inputs.waterLevel, 3)) / 6;
+  
+  // Calculate custom load moment (horizontal components act at their application height)
+  const customMoment = customLoads.loads.reduce((sum, load) => sum + load.horizontal * load.actionY, 0);
+  
+  // Calculate gate moment (the horizontal gate reaction acts at the trunnion or centre of pressure)
+  const gateMoment = gateHorizontal * gateLoads.actionY;
   
   // Calculate total overturning moment
-  const overturningMoment = pressureMoment + upliftMoment;
+  const overturningMoment = pressureMoment + upliftMoment + siltMoment + iceMoment + seismicMoment
+    + hydrodynamicMoment + waveMoment + customMoment + gateMoment;
   
-  // Calculate location of resultant
-  const locationOfRy = verticalReaction !== 0 
-    ? (rightingMoment - overturningMoment) / verticalReaction 
+  // A dam whose uplift exceeds its weight floats; moments and resultant positions are then meaningless
+  const isFloating = verticalReaction <= 0;
+  
+  // Calculate the true distance of the resultant from the toe
+  // Vertical loads are taken about the heel and horizontal loads about the base, then shifted to the toe
+  const verticalLoadMoment = (selfWeight - verticalSeismicForce) * centerOfGravity + upstreamWaterWeight * upstreamWaterWeightArm
+    + tailwaterWeight * tailwaterWeightArm + siltWeight * siltWeightArm + nappeWeight * nappeWeightArm
+    - hydrostaticUplift * upliftCentroid
+    + anchorForces.rows.reduce((sum, row) => sum + row.vertical * row.position, 0)
+    + customLoads.loads.reduce((sum, load) => sum + load.vertical * load.actionX, 0)
+    + gateVertical * gateLoads.actionX;
+  const horizontalLoadMoment = pressureMoment + siltMoment + iceMoment + horizontalSeismicForce * centerOfGravityHeight
+    + hydrodynamicMoment + waveMoment + customMoment + gateMoment - tailwaterPressureMoment;
+  const resultantFromToe = !isFloating 
+    ? (verticalReaction * inputs.baseWidth - verticalLoadMoment - horizontalLoadMoment) / verticalReaction 
+    : 0;
+  
+  // Calculate location of resultant, measured from the moment reference point
+  const locationOfRy = !isFloating 
+    ? (getMomentReference(inputs) === 'toe' ? resultantFromToe : inputs.baseWidth - resultantFromToe) 
     : 0;
   
   return {
@@ -313,44 +1056,346 @@ const calculateIntermediateResults = (inputs: DamInputs) => {
     overturningMoment,
     locationOfRy,
     pressureMoment,
-    upliftMoment
+    upliftMoment,
+    tailwaterPressure,
+    tailwaterWeight,
+    tailwaterWeightArm,
+    tailwaterPressureMoment,
+    tailwaterWeightMoment,
+    siltPressure,
+    siltWeight,
+    siltWeightArm,
+    siltWeightMoment,
+    siltMoment,
+    iceLoad,
+    iceMoment,
+    centerOfGravityHeight,
+    horizontalSeismicForce,
+    verticalSeismicForce,
+    seismicMoment,
+    hydrodynamicPressure,
+    hydrodynamicMoment,
+    waveHeight,
+    windSetup,
+    wavePressure,
+    windSetupPressure,
+    waveForce,
+    waveMoment,
+    upstreamWaterWeight,
+    upstreamWaterWeightArm,
+    upstreamWaterWeightMoment,
+    upliftCentroid,
+    resultantFromToe,
+    isFloating,
+    selfWeightMoment,
+    overtoppingDepth,
+    hydrostaticPressureHeight,
+    nappeWeight,
+    nappeDepth,
+    nappeWeightArm,
+    nappeWeightMoment,
+    anchorForces,
+    anchorVertical,
+    anchorHorizontal,
+    anchorMoment,
+    customLoads,
+    customVertical,
+    customHorizontal,
+    customRightingMoment,
+    customMoment,
+    gateLoads,
+    gateHorizontal,
+    gateVertical,
+    gateRightingMoment,
+    gateMoment
   };
 };
 
-// Process all calculations
-export const calculateDamStability = (inputs: DamInputs): CalculationResults => {
-  const {
-    structureType,
-    baseWidth,
-    height,
-    crestWidth,
-    concreteDensity,
-    waterDensity,
-    waterDensityUnit,
-    frictionCoefficient,
-    waterLevel,
-    heelUplift = 0,
-    toeUplift = 0,
-    unitSystem,
-    solveFor = 'none',
-    targetSafetyFactor,
-    needsFrictionCalculation
-  } = inputs;
-  
-  // Unit suffixes based on unit system
-  const lengthUnit = unitSystem === 'metric' ? 'm' : 'ft';
-  const forceUnit = unitSystem === 'metric' ? 'kN' : 'lb';
-  const momentUnit = unitSystem === 'metric' ? 'kNm' : 'lb-ft';
-  const densityUnit = unitSystem === 'metric' 
-    ? (waterDensityUnit === 'kN/m³' ? 'kN/m³' : 'kg/m³') 
-    : 'lb/ft³';
-  
-  // Array to hold detailed calculation steps
-  const calculationSteps: CalculationStep[] = [];
+// Run the cracked-base analysis (USACE EM 1110-2-2200)
+// When the resultant falls outside the middle third, the heel cracks and full reservoir uplift acts over
+// the crack. The compressed length is 3 × the resultant's distance from the toe; iterate until it settles.
+const analyzeCrackedBase = (inputs: DamInputs) => {
+  const { baseWidth } = inputs;
+  const maxIterations = 50;
+  const tolerance = 0.001;
   
-  // Handle solving for unknown parameters
-  let modifiedInputs = { ...inputs };
-  let solvedParameter: { name: string; value: number } | undefined;
+  const history: { crackLength: number; verticalReaction: number; resultantFromToe: number }[] = [];
+  let crackLength = 0;
+  let converged = false;
+  let stable = true;
+  
+  for (let i = 0; i < maxIterations; i++) {
+    const { verticalReaction, resultantFromToe } = calculateIntermediateResults(inputs, crackLength);
+    
+    // The resultant has left the base (or the dam floats), so no compressed length can balance it
+    if (verticalReaction <= 0 || resultantFromToe <= 0) {
+      history.push({ crackLength, verticalReaction, resultantFromToe });
+      stable = false;
+      break;
+    }
+    
+    const nextCrackLength = Math.max(baseWidth - 3 * resultantFromToe, 0);
+    history.push({ crackLength: nextCrackLength, verticalReaction, resultantFromToe });
+    
+    if (nextCrackLength >= baseWidth) {
+      stable = false;
+      break;
+    }
+    
+    if (Math.abs(nextCrackLength - crackLength) < tolerance) {
+      crackLength = nextCrackLength;
+      converged = true;
+      break;
+    }
+    
+    crackLength = nextCrackLength;
+  }
+  
+  return {
+    crackLength,
+    compressedLength: stable ? baseWidth - crackLength : 0,
+    converged,
+    stable,
+    history,
+    results: calculateIntermediateResults(inputs, crackLength)
+  };
+};
+
+// Get the lift joint elevations to check, from the listed joints and the uniform lift spacing
+// Joints at the base or at and above the crest are dropped, as are duplicates.
+const getLiftJointElevations = (inputs: DamInputs): number[] => {
+  const { height, liftJointElevations = [], liftJointSpacing = 0 } = inputs;
+  const elevations = [...liftJointElevations];
+  
+  if (liftJointSpacing > 0) {
+    for (let lift = 1; lift * liftJointSpacing < height; lift++) {
+      elevations.push(lift * liftJointSpacing);
+    }
+  }
+  
+  return elevations
+    .filter(elevation => elevation > 0 && elevation < height)
+    .sort((a, b) => a - b)
+    .filter((elevation, index, sorted) => index === 0 || elevation - sorted[index - 1] > 0.001);
+};
+
+// Build the inputs for the free body above a horizontal lift joint
+// The section above the joint keeps the face slopes, so it has the same shape with a narrower base.
+// Water levels, silt and loads are measured from the joint and from its upstream face, while the
+// hydrodynamic pressure and the wind setup still follow the full reservoir depth. The uplift on
+// the joint keeps the fraction of reservoir head assumed at the heel, reducing to tailwater at the
+// downstream face; foundation drains, piezometer readings and the foundation seam do not apply.
+const getLiftJointInputs = (inputs: DamInputs, elevation: number): DamInputs => {
+  const { baseWidth, height, waterLevel, tailwaterLevel = 0, siltDepth = 0 } = inputs;
+  const { upstream, downstream } = getFaceProjections(inputs);
+  
+  const heelOffset = upstream * elevation / height;
+  const jointWidth = baseWidth - (upstream + downstream) * elevation / height;
+  const jointWaterLevel = Math.max(waterLevel - elevation, 0);
+  const headRatio = waterLevel > 0 ? Math.min(getHeelUpliftHead(inputs) / waterLevel, 1) : 0;
+  
+  // Anchors lean upstream as they go down, so they cross the joint downstream of their base position
+  const anchors = (inputs.anchors ?? [])
+    .map(anchor => ({
+      ...anchor,
+      position: anchor.position + elevation * Math.tan(anchor.inclination * Math.PI / 180) - heelOffset
+    }))
+    .filter(anchor => anchor.position >= 0 && anchor.position <= jointWidth);
+  
+  // Only loads applied entirely above the joint act on its free body
+  const customLoads = (inputs.customLoads ?? [])
+    .filter(load => Math.min(load.y, load.endY ?? load.y) >= elevation)
+    .map(load => ({
+      ...load,
+      x: load.x - heelOffset,
+      y: load.y - elevation,
+      endX: load.endX !== undefined ? load.endX - heelOffset : undefined,
+      endY: load.endY !== undefined ? load.endY - elevation : undefined
+    }));
+  
+  const gateAbove = hasGate(inputs) && getGateSillElevation(inputs) >= elevation;
+  
+  return {
+    ...inputs,
+    baseWidth: jointWidth,
+    height: height - elevation,
+    waterLevel: jointWaterLevel,
+    reservoirDepth: getReservoirDepth(inputs),
+    tailwaterLevel: Math.max(tailwaterLevel - elevation, 0),
+    heelUplift: headRatio * jointWaterLevel,
+    toeUplift: 0,
+    drainDistance: undefined,
+    drainEfficiency: undefined,
+    upliftProfile: undefined,
+    seepage: undefined,
+    weirFoundation: undefined,
+    siltDepth: Math.max(siltDepth - elevation, 0),
+    iceLoad: getIceLoadHeight(inputs) >= elevation ? inputs.iceLoad : undefined,
+    anchors,
+    customLoads,
+    gateType: gateAbove ? inputs.gateType : undefined,
+    gateSillElevation: getGateSillElevation(inputs) - elevation,
+    trunnionDistance: (inputs.trunnionDistance ?? 0) - heelOffset,
+    trunnionElevation: (inputs.trunnionElevation ?? 0) - elevation,
+    contactLength: undefined,
+    foundationInclination: 0,
+    wedgeAnalysis: undefined,
+    crackedBaseAnalysis: false,
+    liftJointElevations: undefined,
+    liftJointSpacing: undefined
+  };
+};
+
+// Check sliding, overturning and the resultant position on one lift joint
+const analyzeLiftJoint = (inputs: DamInputs, elevation: number): LiftJointResult => {
+  const jointInputs = getLiftJointInputs(inputs, elevation);
+  const { verticalReaction, horizontalReaction, rightingMoment, overturningMoment, locationOfRy } = 
+    calculateIntermediateResults(jointInputs);
+  const { resultantFromHeel, withinMiddleThird, status } = 
+    calculateBasePressure(verticalReaction, locationOfRy, jointInputs.baseWidth, getMomentReference(jointInputs));
+  
+  return {
+    elevation,
+    width: jointInputs.baseWidth,
+    verticalReaction,
+    horizontalReaction,
+    safetyFactorSliding: calculateSlidingSafetyFactor(
+      verticalReaction,
+      horizontalReaction,
+      inputs.frictionCoefficient,
+      inputs.needsFrictionCalculation
+    ),
+    safetyFactorOverturning: calculateOverturningFactor(rightingMoment, overturningMoment),
+    resultantFromHeel,
+    withinMiddleThird,
+    status
+  };
+};
+
+// Calculate the stresses at one face from the vertical stress, the face slope and the water on the face
+// Equilibrium of a small wedge at the face gives τ = (σz - p) × tanφ, σy = p + (σz - p) × tan²φ and a
+// principal stress along the face of σz × (1 + tan²φ) - p × tan²φ. The other principal stress is p.
+const calculateFaceStress = (verticalStress: number, waterPressure: number, faceSlope: number): FaceStressResults => {
+  const slopeSquared = faceSlope * faceSlope;
+  const parallelStress = verticalStress * (1 + slopeSquared) - waterPressure * slopeSquared;
+  
+  return {
+    verticalStress,
+    waterPressure,
+    shearStress: (verticalStress - waterPressure) * faceSlope,
+    horizontalStress: waterPressure + (verticalStress - waterPressure) * slopeSquared,
+    majorPrincipalStress: Math.max(parallelStress, waterPressure),
+    minorPrincipalStress: Math.min(parallelStress, waterPressure)
+  };
+};
+
+// Get the elevations for the face stress analysis: the base and every lift joint,
+// or the quarter points of the height when no joints are defined
+const getFaceStressElevations = (inputs: DamInputs): number[] => {
+  const jointElevations = getLiftJointElevations(inputs);
+  return jointElevations.length > 0 
+    ? [0, ...jointElevations] 
+    : [0, inputs.height / 4, inputs.height / 2, 3 * inputs.height / 4];
+};
+
+// Run the gravity-method stress analysis on a horizontal section (USBR)
+// Vertical stresses vary linearly across the section and are found without uplift, since the total
+// stresses in the concrete have to balance the water pressure on each face.
+const analyzeFaceStresses = (inputs: DamInputs, elevation: number): FaceStressSection => {
+  const sectionInputs = elevation > 0 ? getLiftJointInputs(inputs, elevation) : inputs;
+  const { baseWidth: width, height } = sectionInputs;
+  const { verticalReaction, resultantFromToe, hydrostaticUplift, upliftCentroid } = calculateIntermediateResults(sectionInputs);
+  const { upstream, downstream } = getFaceProjections(sectionInputs);
+  const waterDensityInKN = getWaterUnitWeight(sectionInputs);
+  
+  // Adding the uplift back moves the resultant by the uplift moment about the upstream face
+  const totalVertical = verticalReaction + hydrostaticUplift;
+  const resultantFromHeel = totalVertical > 0 
+    ? (verticalReaction * (width - resultantFromToe) + hydrostaticUplift * upliftCentroid) / totalVertical 
+    : width / 2;
+  const eccentricity = resultantFromHeel - width / 2;
+  
+  return {
+    elevation,
+    width,
+    upstream: calculateFaceStress(
+      totalVertical / width * (1 - 6 * eccentricity / width),
+      waterDensityInKN * sectionInputs.waterLevel,
+      upstream / height
+    ),
+    downstream: calculateFaceStress(
+      totalVertical / width * (1 + 6 * eccentricity / width),
+      waterDensityInKN * (sectionInputs.tailwaterLevel ?? 0),
+      downstream / height
+    )
+  };
+};
+
+// Keep only the loads the finite element model carries: self weight, water on the faces and crest, and uplift
+// The gravity method is run on these inputs so both results describe the same section under the same loads.
+const getFiniteElementComparisonInputs = (inputs: DamInputs): DamInputs => ({
+  ...inputs,
+  siltDepth: undefined,
+  iceLoad: undefined,
+  anchors: undefined,
+  gateType: undefined,
+  customLoads: undefined,
+  horizontalSeismicCoefficient: undefined,
+  verticalSeismicCoefficient: undefined,
+  fetchLength: undefined,
+  windSpeed: undefined
+});
+
+// Process all calculations
+export const calculateDamStability = (inputs: DamInputs): CalculationResults => {
+  const {
+    structureType,
+    baseWidth,
+    height,
+    crestWidth,
+    concreteDensity,
+    waterDensity,
+    waterDensityUnit,
+    frictionCoefficient,
+    waterLevel,
+    heelUplift = 0,
+    drainDistance = 0,
+    drainEfficiency = 0,
+    tailwaterLevel = 0,
+    siltDepth = 0,
+    siltUnitWeight = 0,
+    horizontalSeismicCoefficient = 0,
+    verticalSeismicCoefficient = 0,
+    foundationInclination = 0,
+    unitSystem,
+    solveFor = 'none',
+    targetSafetyFactor,
+    needsFrictionCalculation
+  } = inputs;
+  
+  // Unit suffixes based on unit system
+  const lengthUnit = unitSystem === 'metric' ? 'm' : 'ft';
+  const forceUnit = unitSystem === 'metric' ? 'kN' : 'lb';
+  const momentUnit = unitSystem === 'metric' ? 'kNm' : 'lb-ft';
+  const densityUnit = unitSystem === 'metric' 
+    ? (waterDensityUnit === 'kN/m³' ? 'kN/m³' : 'kg/m³') 
+    : 'lb/ft³';
+  const unitWeightUnit = unitSystem === 'metric' ? 'kN/m³' : 'lb/ft³';
+  
+  // Moment reference point and a helper to write lever arms about it
+  const momentReference = getMomentReference(inputs);
+  const referenceEdge = momentReference === 'toe' ? 'right edge (toe)' : 'left edge (heel)';
+  const armAbout = (distanceFromHeel: string): string => 
+    momentReference === 'toe' ? `(baseWidth - ${distanceFromHeel})` : distanceFromHeel;
+  const armValue = (distanceFromHeel: number): number => 
+    momentReference === 'toe' ? modifiedInputs.baseWidth - distanceFromHeel : distanceFromHeel;
+  
+  // Array to hold detailed calculation steps
+  const calculationSteps: CalculationStep[] = [];
+  
+  // Handle solving for unknown parameters
+  let modifiedInputs = { ...inputs };
+  let solvedParameter: { name: string; value: number } | undefined;
   
   if (solveFor !== 'none' && targetSafetyFactor) {
     // We need to solve for an unknown parameter
@@ -392,6 +1437,10 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
     }
   }
   
+  // Solve the foundation seepage once and carry its uplift profile through the rest of the analysis
+  const seepage = getSeepage(modifiedInputs, solveFoundationSeepage(modifiedInputs));
+  if (seepage) modifiedInputs = { ...modifiedInputs, upliftProfile: seepage.upliftProfile };
+  
   // Calculate intermediate results with potentially modified inputs
   const {
     volume,
@@ -405,7 +1454,58 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
     overturningMoment,
     locationOfRy,
     pressureMoment,
-    upliftMoment
+    upliftMoment,
+    tailwaterPressure,
+    tailwaterWeight,
+    tailwaterWeightArm,
+    tailwaterPressureMoment,
+    tailwaterWeightMoment,
+    siltPressure,
+    siltWeight,
+    siltWeightArm,
+    siltWeightMoment,
+    siltMoment,
+    iceLoad,
+    iceMoment,
+    centerOfGravityHeight,
+    horizontalSeismicForce,
+    verticalSeismicForce,
+    seismicMoment,
+    hydrodynamicPressure,
+    hydrodynamicMoment,
+    waveHeight,
+    windSetup,
+    wavePressure,
+    windSetupPressure,
+    waveForce,
+    waveMoment,
+    upstreamWaterWeight,
+    upstreamWaterWeightArm,
+    upstreamWaterWeightMoment,
+    upliftCentroid,
+    resultantFromToe,
+    isFloating,
+    selfWeightMoment,
+    overtoppingDepth,
+    hydrostaticPressureHeight,
+    nappeWeight,
+    nappeDepth,
+    nappeWeightArm,
+    nappeWeightMoment,
+    anchorForces,
+    anchorVertical,
+    anchorHorizontal,
+    anchorMoment,
+    customLoads,
+    customVertical,
+    customHorizontal,
+    customRightingMoment,
+    customMoment,
+    gateLoads,
+    gateHorizontal,
+    gateVertical,
+    gateRightingMoment,
+    gateMoment
   } = calculateIntermediateResults(modifiedInputs);
   
   // If solving for friction coefficient, do it after intermediate calculations
@@ -413,7 +1513,8 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
     const solvedFriction = solveForFrictionCoefficient(
       verticalReaction, 
       horizontalReaction, 
-      targetSafetyFactor
+      targetSafetyFactor,
+      foundationInclination
     );
     
     modifiedInputs.frictionCoefficient = solvedFriction;
@@ -422,7 +1523,9 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
     // Add solved parameter calculation step
     calculationSteps.push({
       title: "Solve for Required Friction Coefficient",
-      formula: "(targetSafetyFactor × horizontalReaction) / verticalReaction",
+      formula: foundationInclination !== 0 
+        ? "(targetSafetyFactor × drivingForce) / normalForce" 
+        : "(targetSafetyFactor × horizontalReaction) / verticalReaction",
       explanation: `Calculating the friction coefficient needed to achieve a target sliding safety factor of ${targetSafetyFactor}`,
       value: solvedFriction,
       unit: ""
@@ -459,15 +1562,116 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   
   // Step 2: Calculate hydrostatic uplift (if applicable)
   const upliftArea = calculateUpliftArea(modifiedInputs);
+  const toeUplift = getToeUpliftHead(modifiedInputs);
+  
+  const upliftProfile = getUpliftProfile(modifiedInputs);
+  
+  // Add toe uplift head step when tailwater governs the toe pressure
+  if (tailwaterLevel > 0 && !upliftProfile) {
+    calculationSteps.push({
+      title: "Calculate Toe Uplift Head from Tailwater",
+      formula: "max(toeUplift, tailwaterLevel)",
+      explanation: `With tailwater at ${tailwaterLevel}${lengthUnit}, the uplift head at the toe cannot be lower than the tailwater depth.`,
+      value: toeUplift,
+      unit: lengthUnit
+    });
+  }
+  
+  // Add drain head step (if applicable)
+  const drainsActive = !upliftProfile && hasDrainLine(modifiedInputs) && (heelUplift > 0 || toeUplift > 0);
+  const drainHead = drainsActive ? getDrainUpliftHead(modifiedInputs) : 0;
+  
+  if (drainsActive) {
+    calculationSteps.push({
+      title: "Calculate Uplift Head at Drain Line",
+      formula: "toeUplift + (1 - drainEfficiency) × (heelUplift - toeUplift) × (baseWidth - drainDistance) / baseWidth",
+      explanation: `Foundation drains ${drainDistance}${lengthUnit} from the heel with ${drainEfficiency}% efficiency relieve the uplift pressure. The head at the drain line follows the USACE bilinear uplift diagram.`,
+      value: drainHead,
+      unit: lengthUnit
+    });
+  }
+  
+  // Add seepage step (if the foundation is modelled)
+  if (seepage && inputs.seepage) {
+    const { foundationDepth, permeability, anisotropyRatio = 1, cutoffDepth = 0, drainPositions = [] } = inputs.seepage;
+    const features = [
+      ...(cutoffDepth > 0 ? [`a cutoff wall ${formatNumber(cutoffDepth)}${lengthUnit} deep`] : []),
+      ...(drainPositions.length > 0 ? [`${drainPositions.length} drain${drainPositions.length > 1 ? 's' : ''} relieved to tailwater`] : [])
+    ];
+    
+    calculationSteps.push({
+      title: "Solve Foundation Seepage",
+      formula: "kx × ∂²h/∂x² + ky × ∂²h/∂y² = 0",
+      explanation: `Steady seepage through ${formatNumber(foundationDepth)}${lengthUnit} of pervious foundation (k = ${permeability} ${lengthUnit}/s${
+        anisotropyRatio !== 1 ? `, kh/kv = ${anisotropyRatio}` : ''
+      }${features.length > 0 ? `, with ${formatList(features)}` : ''}) is solved by finite differences${
+        seepage.converged ? ` in ${seepage.iterations} iterations` : ` (not fully converged after ${seepage.iterations} iterations)`
+      }. The pressure head along the base becomes the uplift profile, and the value shown is the seepage discharge per ${lengthUnit} of dam per day.`,
+      value: seepage.discharge * 86400,
+      unit: `${lengthUnit}³/day`
+    });
+  }
+  
+  // Add weir floor creep steps (if the weir sits on a permeable foundation)
+  const weirCreep = getWeirCreep(modifiedInputs);
+  
+  if (weirCreep) {
+    const { head, floorLength, piles } = weirCreep;
+    
+    calculationSteps.push({
+      title: "Check Bligh Creep Ratio",
+      formula: "(floorLength + 2 × Σ pileDepth) / (waterLevel - tailwaterLevel)",
+      explanation: `The creep path follows the ${formatNumber(floorLength)}${lengthUnit} floor and both faces of ${piles.length} sheet pile${piles.length !== 1 ? 's' : ''}, ${formatNumber(weirCreep.blighCreepLength)}${lengthUnit} in all, under a head of ${formatNumber(head)}${lengthUnit}. Bligh's coefficient for this soil is ${weirCreep.blighCoefficient}, so the creep length ${weirCreep.blighRatio >= weirCreep.blighCoefficient ? 'is adequate' : 'is too short and the floor or piles must be lengthened'}.`,
+      value: weirCreep.blighRatio,
+      unit: ""
+    });
+    
+    calculationSteps.push({
+      title: "Check Lane Weighted Creep Ratio",
+      formula: "(floorLength / 3 + 2 × Σ pileDepth) / (waterLevel - tailwaterLevel)",
+      explanation: `Lane counts horizontal creep at a third of vertical creep, giving a weighted creep length of ${formatNumber(weirCreep.laneCreepLength)}${lengthUnit}. Lane's coefficient for this soil is ${weirCreep.laneCoefficient}, so the weighted creep length ${weirCreep.laneRatio >= weirCreep.laneCoefficient ? 'is adequate' : 'is too short'}.`,
+      value: weirCreep.laneRatio,
+      unit: ""
+    });
+    
+    piles.forEach((pile, index) => {
+      calculationSteps.push({
+        title: `Khosla Pressures at Pile ${index + 1}`,
+        formula: "φE = acos((λ2 - 1) / λ1) / π, φD = acos(λ2 / λ1) / π, φC = acos((λ2 + 1) / λ1) / π",
+        explanation: `The ${formatNumber(pile.depth)}${lengthUnit} pile ${formatNumber(Math.abs(pile.position))}${lengthUnit} ${pile.position < 0 ? 'upstream of' : 'from'} the heel has residual pressures of ${formatNumber(pile.pressureE)}% upstream (E), ${formatNumber(pile.pressureD)}% at the tip (D) and ${formatNumber(pile.pressureC)}% downstream (C), after the corrections for neighbouring piles and floor thickness. The value shown is the pressure at C.`,
+        value: pile.pressureC,
+        unit: "%"
+      });
+    });
+    
+    calculationSteps.push({
+      title: "Check Exit Gradient",
+      formula: "(H / d) × 1 / (π × √λ), λ = (1 + √(1 + (b / d)²)) / 2",
+      explanation: Number.isFinite(weirCreep.exitGradient)
+        ? `Khosla's exit gradient at the downstream end pile, against an allowable ${formatNumber(weirCreep.allowableExitGradient)} for this soil. The gradient ${weirCreep.exitGradient <= weirCreep.allowableExitGradient ? 'is safe against piping' : 'is too high and the end pile must be deepened'}.`
+        : "There is no sheet pile at the downstream end of the floor, so the exit gradient is unbounded and the floor is unsafe against piping. Add a pile at the end of the downstream floor.",
+      value: weirCreep.exitGradient,
+      valueLabel: Number.isFinite(weirCreep.exitGradient) ? undefined : 'Unbounded - no end pile',
+      unit: ""
+    });
+  }
   
   // Add uplift calculation step
   calculationSteps.push({
     title: "Calculate Hydrostatic Uplift",
-    formula: "waterDensity × ((heelUplift + toeUplift) / 2) × baseWidth",
+    formula: upliftProfile 
+      ? "waterDensity × Σ ((head₁ + head₂) / 2) × (distance₂ - distance₁)" 
+      : drainsActive 
+        ? "waterDensity × [((heelUplift + drainHead) / 2) × drainDistance + ((drainHead + toeUplift) / 2) × (baseWidth - drainDistance)]" 
+        : "waterDensity × ((heelUplift + toeUplift) / 2) × baseWidth",
     explanation: `${
-      heelUplift === 0 && toeUplift === 0 
-        ? "No uplift values provided, so uplift force is zero." 
-        : `Uplift pressure varies from ${heelUplift}${lengthUnit} at the heel to ${toeUplift}${lengthUnit} at the toe. The average uplift height is ${(heelUplift + toeUplift) / 2}${lengthUnit}, acting over the entire base width.`
+      upliftProfile 
+        ? `Uplift follows the ${upliftProfile.length} ${seepage ? 'grid points of the seepage model' : weirCreep ? "key points of Khosla's floor pressures" : 'piezometer readings'}, varying linearly between them from ${formatNumber(getProfileHeadAt(upliftProfile, 0))}${lengthUnit} at the heel to ${formatNumber(getProfileHeadAt(upliftProfile, modifiedInputs.baseWidth))}${lengthUnit} at the toe. The force is the area of this piecewise-linear profile.` 
+        : heelUplift === 0 && toeUplift === 0 
+          ? "No uplift values provided, so uplift force is zero." 
+          : drainsActive 
+            ? `Uplift pressure drops from ${heelUplift}${lengthUnit} at the heel to ${formatNumber(drainHead)}${lengthUnit} at the drain line, then varies to ${toeUplift}${lengthUnit} at the toe. The force is the area of this bilinear diagram.`
+            : `Uplift pressure varies from ${heelUplift}${lengthUnit} at the heel to ${toeUplift}${lengthUnit} at the toe. The average uplift height is ${(heelUplift + toeUplift) / 2}${lengthUnit}, acting over the entire base width.`
     }`,
     value: hydrostaticUplift,
     unit: forceUnit
@@ -477,28 +1681,331 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   // Add hydrostatic pressure calculation step
   calculationSteps.push({
     title: "Calculate Hydrostatic Pressure",
-    formula: "waterDensity × (waterLevel² / 2)",
-    explanation: `The water pressure increases linearly with depth, creating a triangular pressure distribution. For water level ${modifiedInputs.waterLevel}${lengthUnit} and density ${waterDensity} ${waterDensityUnit}, the total horizontal force is calculated using the area of the pressure triangle.`,
+    formula: overtoppingDepth > 0 
+      ? "waterDensity × (waterLevel² - (waterLevel - height)²) / 2" 
+      : "waterDensity × (waterLevel² / 2)",
+    explanation: overtoppingDepth > 0 
+      ? `The pool is ${formatNumber(overtoppingDepth)}${lengthUnit} above the crest, so the dam is overtopped. The pressure on the upstream face varies from a head of ${formatNumber(overtoppingDepth)}${lengthUnit} at the crest to ${modifiedInputs.waterLevel}${lengthUnit} at the base, and the total horizontal force is the area of this pressure trapezoid.` 
+      : `The water pressure increases linearly with depth, creating a triangular pressure distribution. For water level ${modifiedInputs.waterLevel}${lengthUnit} and density ${waterDensity} ${waterDensityUnit}, the total horizontal force is calculated using the area of the pressure triangle.`,
     value: hydrostaticPressure,
     unit: forceUnit
   });
   
+  // Add upstream water weight steps (if applicable)
+  if (upstreamWaterWeight > 0) {
+    calculationSteps.push({
+      title: "Calculate Water Weight on Upstream Face",
+      formula: overtoppingDepth > 0 
+        ? "waterDensity × (upstreamSlope × height² / 2 + upstreamSlope × height × (waterLevel - height))" 
+        : "waterDensity × (upstreamSlope × waterLevel) × waterLevel / 2",
+      explanation: `The reservoir water directly above the battered upstream face forms a triangular wedge that presses down on the dam and adds vertical load.${
+        overtoppingDepth > 0 ? ' The pool above the crest adds a rectangular block of water over the whole face.' : ''
+      }`,
+      value: upstreamWaterWeight,
+      unit: forceUnit
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Upstream Water Weight Moment",
+      formula: `upstreamWaterWeight × ${armAbout(overtoppingDepth > 0 ? 'upstreamWaterArm' : '(upstreamSlope × waterLevel / 3)')}`,
+      explanation: `The water wedge acts through its centroid, ${formatNumber(upstreamWaterWeightArm)}${lengthUnit} from the heel. Its lever arm about the ${momentReference} is ${formatNumber(armValue(upstreamWaterWeightArm))}${lengthUnit}, and it adds to the righting moment.`,
+      value: upstreamWaterWeightMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add nappe weight steps (if applicable)
+  if (nappeWeight > 0) {
+    calculationSteps.push({
+      title: "Calculate Nappe Weight on Crest",
+      formula: "waterDensity × crestLength × 2/3 × (waterLevel - height)",
+      explanation: `The water flowing over the crest passes through critical depth, taken as 2/3 of the ${formatNumber(overtoppingDepth)}${lengthUnit} head above the crest, giving a nappe ${formatNumber(nappeDepth)}${lengthUnit} thick that adds vertical load.`,
+      value: nappeWeight,
+      unit: forceUnit
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Nappe Weight Moment",
+      formula: `nappeWeight × ${armAbout('nappeArm')}`,
+      explanation: `The nappe acts at the middle of the crest, ${formatNumber(nappeWeightArm)}${lengthUnit} from the heel. Its lever arm about the ${momentReference} is ${formatNumber(armValue(nappeWeightArm))}${lengthUnit}, and it adds to the righting moment.`,
+      value: nappeWeightMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add tailwater steps (if applicable)
+  if (tailwaterLevel > 0) {
+    calculationSteps.push({
+      title: "Calculate Tailwater Pressure",
+      formula: "waterDensity × (tailwaterLevel² / 2)",
+      explanation: `Tailwater at ${tailwaterLevel}${lengthUnit} pushes on the downstream face with a triangular pressure distribution, opposing the upstream water thrust.`,
+      value: tailwaterPressure,
+      unit: forceUnit
+    });
+    
+    if (tailwaterWeight > 0) {
+      calculationSteps.push({
+        title: "Calculate Tailwater Weight on Downstream Face",
+        formula: "waterDensity × (downstreamSlope × tailwaterLevel) × tailwaterLevel / 2",
+        explanation: `The water resting on the sloped downstream face forms a triangular wedge that adds vertical load.`,
+        value: tailwaterWeight,
+        unit: forceUnit
+      });
+      
+      calculationSteps.push({
+        title: "Calculate Tailwater Weight Moment",
+        formula: momentReference === 'toe' 
+          ? "tailwaterWeight × (downstreamSlope × tailwaterLevel / 3)" 
+          : "tailwaterWeight × (baseWidth - downstreamSlope × tailwaterLevel / 3)",
+        explanation: `The tailwater wedge acts through its centroid, ${formatNumber(tailwaterWeightArm)}${lengthUnit} from the heel. Its lever arm about the ${momentReference} is ${formatNumber(armValue(tailwaterWeightArm))}${lengthUnit}, and it adds to the righting moment.`,
+        value: tailwaterWeightMoment,
+        unit: momentUnit
+      });
+    }
+  }
+  
+  // Add silt steps (if applicable)
+  if (siltDepth > 0) {
+    calculationSteps.push({
+      title: "Calculate Silt Pressure",
+      formula: "Ka × siltUnitWeight × (siltDepth² / 2)",
+      explanation: `A ${siltDepth}${lengthUnit} sediment deposit with submerged unit weight ${siltUnitWeight} ${unitWeightUnit} exerts an active earth pressure on the upstream face. The Rankine coefficient Ka = ${formatNumber(getSiltPressureCoefficient(modifiedInputs))} is applied to the triangular pressure distribution.`,
+      value: siltPressure,
+      unit: forceUnit
+    });
+    
+    if (siltWeight > 0) {
+      calculationSteps.push({
+        title: "Calculate Silt Weight on Upstream Face",
+        formula: "siltUnitWeight × (upstreamSlope × siltDepth) × siltDepth / 2",
+        explanation: `The sediment resting on the battered upstream face forms a triangular wedge that adds vertical load. It acts ${formatNumber(siltWeightArm)}${lengthUnit} from the heel.`,
+        value: siltWeight,
+        unit: forceUnit
+      });
+    }
+  }
+  
+  // Add ice thrust step (if applicable)
+  if (iceLoad > 0) {
+    calculationSteps.push({
+      title: "Calculate Ice Thrust",
+      formula: "iceLoad (line load per unit length)",
+      explanation: `The design ice load of ${iceLoad} ${forceUnit}/${lengthUnit} acts horizontally on the upstream face ${modifiedInputs.iceDepth ?? 0}${lengthUnit} below the pool surface, ${formatNumber(getIceLoadHeight(modifiedInputs))}${lengthUnit} above the base.`,
+      value: iceLoad,
+      unit: forceUnit
+    });
+  }
+  
+  // Add seismic inertia steps (if applicable)
+  if (horizontalSeismicForce > 0) {
+    calculationSteps.push({
+      title: "Calculate Horizontal Seismic Inertia",
+      formula: "kh × selfWeight",
+      explanation: `With a horizontal seismic coefficient kh = ${horizontalSeismicCoefficient}, the inertia of the dam body produces a horizontal force acting at its center of gravity, ${formatNumber(centerOfGravityHeight)}${lengthUnit} above the base.`,
+      value: horizontalSeismicForce,
+      unit: forceUnit
+    });
+  }
+  
+  if (verticalSeismicForce > 0) {
+    calculationSteps.push({
+      title: "Calculate Vertical Seismic Inertia",
+      formula: "kv × selfWeight",
+      explanation: `With a vertical seismic coefficient kv = ${verticalSeismicCoefficient}, the upward inertia force reduces the effective weight of the dam to ${formatNumber(selfWeight - verticalSeismicForce)} ${forceUnit}.`,
+      value: verticalSeismicForce,
+      unit: forceUnit
+    });
+  }
+  
+  // Add hydrodynamic pressure step (if applicable)
+  if (hydrodynamicPressure > 0) {
+    const upstreamFaceAngle = getUpstreamFaceAngle(modifiedInputs);
+    
+    calculationSteps.push({
+      title: "Calculate Hydrodynamic Pressure (Westergaard)",
+      formula: `${overtoppingDepth > 0 
+        ? "(7/12) × kh × waterDensity × √waterLevel × (waterLevel^1.5 - overtoppingDepth^1.5)" 
+        : "(7/12) × kh × waterDensity × waterLevel²"}${upstreamFaceAngle < 90 ? " × (θ / 90°)" : ""}`,
+      explanation: `During the earthquake the reservoir exerts an added dynamic thrust following Westergaard's parabolic pressure distribution${
+        upstreamFaceAngle < 90 
+          ? `, reduced with Zangar's correction for the upstream face inclined at ${formatNumber(upstreamFaceAngle)}° from horizontal` 
+          : ''
+      }.${
+        overtoppingDepth > 0 
+          ? ` Only the part of the parabola below the crest acts on the dam; its resultant acts ${formatNumber(getHydrodynamicPressureHeight(modifiedInputs))}${lengthUnit} above the base.` 
+          : ' The resultant acts at 0.4 × waterLevel above the base.'
+      }`,
+      value: hydrodynamicPressure,
+      unit: forceUnit
+    });
+  }
+  
+  // Add wind-wave steps (if applicable)
+  if (waveHeight > 0) {
+    const { effectiveFetch } = calculateWaveParameters(modifiedInputs);
+    const fetchUnit = unitSystem === 'metric' ? 'km' : 'mi';
+    const speedUnit = unitSystem === 'metric' ? 'km/h' : 'mph';
+    
+    calculationSteps.push({
+      title: "Calculate Significant Wave Height",
+      formula: unitSystem === 'metric' 
+        ? "0.032 × √(V × F) + 0.763 - 0.271 × F^(1/4)  (F < 32 km)" 
+        : "0.17 × √(V × F) + 2.5 - F^(1/4)  (F < 20 mi)",
+      explanation: `Using the Molitor/Stevenson formula with a wind speed of ${modifiedInputs.windSpeed} ${speedUnit} over an effective fetch of ${formatNumber(effectiveFetch)} ${fetchUnit}${
+        effectiveFetch < (modifiedInputs.fetchLength ?? 0) 
+          ? ` (reduced from ${modifiedInputs.fetchLength} ${fetchUnit} because a ${modifiedInputs.windDuration} h wind cannot develop waves over the full fetch)` 
+          : ''
+      }. For long fetches only the first term applies.`,
+      value: waveHeight,
+      unit: lengthUnit
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Wind Setup",
+      formula: unitSystem === 'metric' ? "V² × F / (62800 × waterLevel)" : "V² × F / (1400 × waterLevel)",
+      explanation: `Sustained wind tilts the reservoir surface and raises the still-water level at the dam (Zuider Zee formula, using the water level as the mean depth along the fetch).`,
+      value: windSetup,
+      unit: lengthUnit
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Wave Pressure",
+      formula: "2 × waterDensity × waveHeight² + waterDensity × ((waterLevel + windSetup)² - waterLevel²) / 2",
+      explanation: `Molitor's wave force acts ${formatNumber(0.375 * waveHeight)}${lengthUnit} (3/8 × waveHeight) above the still-water level. The wind setup adds ${formatNumber(windSetupPressure)} ${forceUnit} of hydrostatic thrust on top of the normal pool.`,
+      value: waveForce,
+      unit: forceUnit
+    });
+  }
+  
+  // Add one step per anchor row (if applicable)
+  anchorForces.rows.forEach((row, index) => {
+    calculationSteps.push({
+      title: `Calculate Anchor Row ${index + 1}`,
+      formula: "vertical = force × cos(inclination), horizontal = force × sin(inclination)",
+      explanation: `A post-tensioned anchor row of ${row.force} ${forceUnit}/${lengthUnit} inclined ${row.inclination}° from vertical crosses the base ${row.position}${lengthUnit} from the heel. It adds ${formatNumber(row.vertical)} ${forceUnit} of vertical load and ${formatNumber(row.horizontal)} ${forceUnit} of horizontal resistance, with a lever arm of ${formatNumber(armValue(row.position))}${lengthUnit} about the ${momentReference}.`,
+      value: row.force,
+      unit: forceUnit
+    });
+  });
+  
+  // Add one step per custom load (if applicable)
+  customLoads.loads.forEach((load, index) => {
+    const name = load.label.trim() || `Custom Load ${index + 1}`;
+    const position = load.type === 'distributed' 
+      ? `is distributed over ${formatNumber(load.length)}${lengthUnit} from (${load.x}, ${load.y}) to (${load.endX ?? load.x}, ${load.endY ?? load.y}), so its resultant acts at (${formatNumber(load.actionX)}, ${formatNumber(load.actionY)})` 
+      : `acts at (${load.x}, ${load.y})`;
+    
+    calculationSteps.push({
+      title: `Calculate Custom Load: ${name}`,
+      formula: load.type === 'distributed' 
+        ? "resultant = magnitude × length, vertical = resultant × cos(angle), horizontal = resultant × sin(angle)" 
+        : "vertical = magnitude × cos(angle), horizontal = magnitude × sin(angle)",
+      explanation: `The load ${position}, measured from the heel and above the base, at ${load.angle}° from vertical. It adds ${formatNumber(load.vertical)} ${forceUnit} of vertical load and ${formatNumber(load.horizontal)} ${forceUnit} of horizontal load toward the toe, giving a moment of ${formatNumber(load.vertical * armValue(load.actionX))} ${momentUnit} about the ${momentReference} from its vertical component and ${formatNumber(load.horizontal * load.actionY)} ${momentUnit} from its horizontal component.`,
+      value: load.resultant,
+      unit: forceUnit
+    });
+  });
+  
+  // Add spillway gate steps (if applicable)
+  if (gateLoads.reaction > 0) {
+    const { gateType, gateBayWidth = 0, monolithWidth = 0 } = modifiedInputs;
+    const gateSillElevation = getGateSillElevation(modifiedInputs);
+    const bayTotal = (force: number) => 
+      ` Over the ${gateBayWidth}${lengthUnit} gate bay this is ${formatNumber(force * monolithWidth)} ${unitSystem === 'metric' ? 'kN' : 'lb'} in total, spread over the ${monolithWidth}${lengthUnit} monolith.`;
+    
+    calculationSteps.push({
+      title: "Calculate Gate Hydrostatic Thrust",
+      formula: "waterDensity × ((waterLevel - sillElevation)² - (waterLevel - sillElevation - wettedGateHeight)²) / 2 × gateBayWidth / monolithWidth",
+      explanation: `The pool acts on the gate above the sill at ${gateSillElevation}${lengthUnit}, with a trapezoidal pressure distribution over its wetted height. The face below the crest carries the rest of the pool, so this water is not counted twice. The gate spans only the bay, so its thrust per ${lengthUnit} of gate, ${formatNumber(gateHorizontal / gateLoads.bayShare)} ${forceUnit}, is scaled by the bay width over the monolith width (${formatNumber(gateLoads.bayShare)}).${gateType === 'radial' ? ' The horizontal thrust on the curved skin plate equals the thrust on its vertical projection.' : ''}${bayTotal(gateHorizontal)}`,
+      value: gateHorizontal,
+      unit: forceUnit
+    });
+    
+    if (gateType === 'radial') {
+      calculationSteps.push({
+        title: "Calculate Gate Vertical Water Load",
+        formula: "Σ pressure × radius × Δθ × sin(θ) along the skin plate × gateBayWidth / monolithWidth",
+        explanation: `The skin plate is an arc of radius ${modifiedInputs.gateRadius}${lengthUnit} about the trunnion. Integrating the normal pressure along the arc gives the vertical component, ${gateVertical < 0 ? 'lifting the trunnion because the wetted arc lies mostly below it' : 'pressing down on the trunnion'}.`,
+        value: gateVertical,
+        unit: forceUnit
+      });
+      
+      calculationSteps.push({
+        title: "Calculate Trunnion Reaction",
+        formula: "√(gateHorizontal² + gateVertical²)",
+        explanation: `Every pressure element on the arc points at the trunnion, so the resultant passes through the pin at (${gateLoads.actionX}, ${gateLoads.actionY}) and is carried by the pier at ${formatNumber(Math.atan2(-gateVertical, gateHorizontal) * 180 / Math.PI)}° above horizontal. The horizontal component acts ${gateLoads.actionY}${lengthUnit} above the base and the vertical component ${formatNumber(armValue(gateLoads.actionX))}${lengthUnit} from the ${momentReference}. Each of the two trunnions carries ${formatNumber(gateLoads.reaction * monolithWidth / 2)} ${unitSystem === 'metric' ? 'kN' : 'lb'}.`,
+        value: gateLoads.reaction,
+        unit: forceUnit
+      });
+    } else {
+      calculationSteps.push({
+        title: "Calculate Gate Slot Reaction",
+        formula: "gateHorizontal × centreOfPressureHeight",
+        explanation: `The vertical-lift gate bears on the pier slots at its centre of pressure, ${formatNumber(gateLoads.actionY)}${lengthUnit} above the base, so its thrust adds to the overturning moment.`,
+        value: gateMoment,
+        unit: momentUnit
+      });
+    }
+  }
+  
   // Step 4: Calculate vertical reaction (Ry)
   // Add vertical reaction calculation step
+  const verticalTerms = [verticalSeismicForce > 0 
+    ? 'selfWeight × (1 - kv) - hydrostaticUplift' 
+    : 'selfWeight - hydrostaticUplift'];
+  if (upstreamWaterWeight > 0) verticalTerms.push('upstreamWaterWeight');
+  if (tailwaterWeight > 0) verticalTerms.push('tailwaterWeight');
+  if (siltWeight > 0) verticalTerms.push('siltWeight');
+  if (nappeWeight > 0) verticalTerms.push('nappeWeight');
+  if (anchorVertical > 0) verticalTerms.push('anchorVertical');
+  if (customVertical !== 0) verticalTerms.push('Σ customVertical');
+  if (gateVertical !== 0) verticalTerms.push('gateVertical');
+  
   calculationSteps.push({
     title: "Calculate Vertical Reaction (Ry)",
-    formula: "selfWeight - hydrostaticUplift",
-    explanation: `The net vertical force is the difference between the dam's self weight (W) and the upward hydrostatic uplift force.`,
+    formula: verticalTerms.join(' + '),
+    explanation: `The net vertical force is the difference between the dam's self weight (W) and the upward hydrostatic uplift force${
+      verticalTerms.length > 1 ? ', plus the surcharges acting on the dam' : ''
+    }.`,
     value: verticalReaction,
     unit: forceUnit
   });
   
   // Step 5: Calculate horizontal reaction (Rx)
   // Add horizontal reaction calculation step
+  let horizontalFormula = 'hydrostaticPressure';
+  if (tailwaterPressure > 0) horizontalFormula += ' - tailwaterPressure';
+  if (siltPressure > 0) horizontalFormula += ' + siltPressure';
+  if (iceLoad > 0) horizontalFormula += ' + iceLoad';
+  if (horizontalSeismicForce > 0) horizontalFormula += ' + kh × selfWeight';
+  if (hydrodynamicPressure > 0) horizontalFormula += ' + hydrodynamicPressure';
+  if (waveForce > 0) horizontalFormula += ' + wavePressure';
+  if (anchorHorizontal > 0) horizontalFormula += ' - anchorHorizontal';
+  if (customHorizontal !== 0) horizontalFormula += ' + Σ customHorizontal';
+  if (gateHorizontal > 0) horizontalFormula += ' + gateHorizontal';
+  
   calculationSteps.push({
     title: "Calculate Horizontal Reaction (Rx)",
-    formula: "hydrostaticPressure",
-    explanation: `The net horizontal force is equal to the hydrostatic pressure force from the water.`,
+    formula: horizontalFormula,
+    explanation: `The net horizontal force is equal to the hydrostatic pressure force from the water${
+      siltPressure > 0 ? ' plus the silt thrust' : ''
+    }${
+      iceLoad > 0 ? ' plus the ice thrust' : ''
+    }${
+      horizontalSeismicForce > 0 ? ' plus the seismic inertia of the dam' : ''
+    }${
+      hydrodynamicPressure > 0 ? ' plus the hydrodynamic reservoir thrust' : ''
+    }${
+      waveForce > 0 ? ' plus the wave pressure' : ''
+    }${
+      tailwaterPressure > 0 ? ', reduced by the opposing tailwater thrust' : ''
+    }${
+      anchorHorizontal > 0 ? `${tailwaterPressure > 0 ? ' and' : ','} reduced by the horizontal anchor components` : ''
+    }${
+      customHorizontal !== 0 ? ', with the horizontal components of the custom loads added' : ''
+    }${
+      gateHorizontal > 0 ? `${customHorizontal !== 0 ? ' and' : ','} with the gate thrust carried by the monolith` : ''
+    }.`,
     value: horizontalReaction,
     unit: forceUnit
   });
@@ -514,10 +2021,46 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   });
   
   // Step 7: Calculate righting moment (RM)
+  const rightingTerms = [`selfWeight × ${armAbout('centerOfGravity')}`];
+  const rightingContributions: string[] = [];
+  if (upstreamWaterWeight > 0) {
+    rightingTerms.push(`upstreamWaterWeight × ${armAbout('upstreamWaterArm')}`);
+    rightingContributions.push(`the upstream water weight (${formatNumber(upstreamWaterWeightMoment)} ${momentUnit})`);
+  }
+  if (tailwaterLevel > 0) {
+    rightingTerms.push('tailwaterPressure × (tailwaterLevel / 3)', `tailwaterWeight × ${armAbout('tailwaterArm')}`);
+    rightingContributions.push(
+      `the tailwater thrust (${formatNumber(tailwaterPressureMoment)} ${momentUnit})`,
+      `the tailwater weight (${formatNumber(tailwaterWeightMoment)} ${momentUnit})`
+    );
+  }
+  if (siltWeight > 0) {
+    rightingTerms.push(`siltWeight × ${armAbout('siltArm')}`);
+    rightingContributions.push(`the silt weight (${formatNumber(siltWeightMoment)} ${momentUnit})`);
+  }
+  if (nappeWeight > 0) {
+    rightingTerms.push(`nappeWeight × ${armAbout('nappeArm')}`);
+    rightingContributions.push(`the nappe weight (${formatNumber(nappeWeightMoment)} ${momentUnit})`);
+  }
+  if (anchorMoment > 0) {
+    rightingTerms.push(`Σ anchorVertical × ${armAbout('anchorPosition')}`);
+    rightingContributions.push(`the anchors (${formatNumber(anchorMoment)} ${momentUnit})`);
+  }
+  if (customRightingMoment !== 0) {
+    rightingTerms.push(`Σ customVertical × ${armAbout('customX')}`);
+    rightingContributions.push(`the custom loads (${formatNumber(customRightingMoment)} ${momentUnit})`);
+  }
+  if (gateRightingMoment !== 0) {
+    rightingTerms.push(`gateVertical × ${armAbout('trunnionDistance')}`);
+    rightingContributions.push(`the vertical gate reaction (${formatNumber(gateRightingMoment)} ${momentUnit})`);
+  }
+  
   calculationSteps.push({
     title: "Calculate Righting Moment (RM)",
-    formula: "selfWeight × centerOfGravity",
-    explanation: `The righting moment (RM) is created by the dam's self weight (W) acting through its center of gravity. This moment tends to resist overturning.`,
+    formula: rightingTerms.join(' + '),
+    explanation: `The righting moment (RM) about the ${referenceEdge} is created by the dam's self weight (W) acting through its center of gravity, ${formatNumber(armValue(centerOfGravity))}${lengthUnit} from the ${momentReference}${
+      rightingContributions.length > 0 ? `, together with ${formatList(rightingContributions)}` : ''
+    }. This moment tends to resist overturning.`,
     value: rightingMoment,
     unit: momentUnit
   });
@@ -527,8 +2070,14 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   // Add pressure moment calculation step
   calculationSteps.push({
     title: "Calculate Pressure Moment",
-    formula: "hydrostaticPressure × (waterLevel / 3)",
-    explanation: `The horizontal water pressure creates an overturning moment. The pressure resultant acts at 1/3 of the water height from the bottom.`,
+    formula: overtoppingDepth > 0 
+      ? "hydrostaticPressure × height × (3 × waterLevel - 2 × height) / (3 × (2 × waterLevel - height))" 
+      : "hydrostaticPressure × (waterLevel / 3)",
+    explanation: `The horizontal water pressure creates an overturning moment about the ${referenceEdge}. ${
+      overtoppingDepth > 0 
+        ? `The resultant of the pressure trapezoid acts at its centroid, ${formatNumber(hydrostaticPressureHeight)}${lengthUnit} above the base.` 
+        : 'The pressure resultant acts at 1/3 of the water height from the bottom.'
+    }`,
     value: pressureMoment,
     unit: momentUnit
   });
@@ -537,18 +2086,88 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   if (hydrostaticUplift > 0) {
     calculationSteps.push({
       title: "Calculate Uplift Moment",
-      formula: "hydrostaticUplift × (baseWidth / 2)",
-      explanation: `The upward uplift force creates an additional overturning moment when acting through the middle of the dam's base.`,
+      formula: `hydrostaticUplift × ${armAbout('upliftCentroid')}`,
+      explanation: `The upward uplift force creates an additional overturning moment about the ${referenceEdge}. It acts through the centroid of the uplift diagram, ${formatNumber(upliftCentroid)}${lengthUnit} from the heel, giving a lever arm of ${formatNumber(armValue(upliftCentroid))}${lengthUnit}.`,
       value: upliftMoment,
       unit: momentUnit
     });
   }
   
+  // Add silt moment calculation step (if applicable)
+  if (siltPressure > 0) {
+    calculationSteps.push({
+      title: "Calculate Silt Moment",
+      formula: "siltPressure × (siltDepth / 3)",
+      explanation: `The silt thrust acts at 1/3 of the deposit depth from the bottom and adds to the overturning moment.`,
+      value: siltMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add ice moment calculation step (if applicable)
+  if (iceLoad > 0) {
+    calculationSteps.push({
+      title: "Calculate Ice Moment",
+      formula: "iceLoad × (waterLevel - iceDepth)",
+      explanation: `The ice thrust acts at its application elevation, ${formatNumber(getIceLoadHeight(modifiedInputs))}${lengthUnit} above the base, and adds to the overturning moment.`,
+      value: iceMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add seismic moment calculation step (if applicable)
+  if (seismicMoment > 0) {
+    calculationSteps.push({
+      title: "Calculate Seismic Inertia Moment",
+      formula: `kh × selfWeight × centerOfGravityHeight + kv × selfWeight × ${armAbout('centerOfGravity')}`,
+      explanation: `The seismic inertia forces act through the center of gravity of the dam, ${formatNumber(centerOfGravityHeight)}${lengthUnit} above the base and ${formatNumber(armValue(centerOfGravity))}${lengthUnit} from the ${momentReference}.`,
+      value: seismicMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add hydrodynamic moment calculation step (if applicable)
+  if (hydrodynamicPressure > 0) {
+    calculationSteps.push({
+      title: "Calculate Hydrodynamic Moment",
+      formula: overtoppingDepth > 0 
+        ? "hydrodynamicPressure × (waterLevel - 0.6 × (waterLevel^2.5 - overtoppingDepth^2.5) / (waterLevel^1.5 - overtoppingDepth^1.5))" 
+        : "hydrodynamicPressure × 0.4 × waterLevel",
+      explanation: overtoppingDepth > 0 
+        ? `The Westergaard resultant of the part below the crest acts ${formatNumber(getHydrodynamicPressureHeight(modifiedInputs))}${lengthUnit} above the base and adds to the overturning moment.` 
+        : `The Westergaard resultant acts at 0.4 of the water height from the bottom and adds to the overturning moment.`,
+      value: hydrodynamicMoment,
+      unit: momentUnit
+    });
+  }
+  
+  // Add wave moment calculation step (if applicable)
+  if (waveForce > 0) {
+    calculationSteps.push({
+      title: "Calculate Wave Moment",
+      formula: "wavePressure × (waterLevel + windSetup + 3/8 × waveHeight) + setupMoment",
+      explanation: `The wave resultant acts above the raised still-water level, ${formatNumber(modifiedInputs.waterLevel + windSetup + 0.375 * waveHeight)}${lengthUnit} above the base, and adds to the overturning moment together with the setup thrust.`,
+      value: waveMoment,
+      unit: momentUnit
+    });
+  }
+  
   // Add total overturning moment calculation step
+  const overturningTerms = ['pressureMoment', 'upliftMoment'];
+  if (siltPressure > 0) overturningTerms.push('siltMoment');
+  if (iceLoad > 0) overturningTerms.push('iceMoment');
+  if (seismicMoment > 0) overturningTerms.push('seismicMoment');
+  if (hydrodynamicMoment > 0) overturningTerms.push('hydrodynamicMoment');
+  if (waveMoment > 0) overturningTerms.push('waveMoment');
+  if (customMoment !== 0) overturningTerms.push('customMoment');
+  if (gateMoment > 0) overturningTerms.push('gateMoment');
+  
   calculationSteps.push({
     title: "Calculate Total Overturning Moment (OM)",
-    formula: "pressureMoment + upliftMoment",
-    explanation: `The total overturning moment is the sum of the water pressure moment and the uplift moment.`,
+    formula: overturningTerms.join(' + '),
+    explanation: `The total overturning moment is the sum of the water pressure moment and the uplift moment${
+      overturningTerms.length > 2 ? `, plus the ${formatList(overturningTerms.slice(2).map(term => term.replace('Moment', '')))} moment${overturningTerms.length > 3 ? 's' : ''}` : ''
+    }.`,
     value: overturningMoment,
     unit: momentUnit
   });
@@ -557,30 +2176,178 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   // Add location of resultant calculation step
   calculationSteps.push({
     title: "Calculate Location of Resultant (Ry)",
-    formula: "(rightingMoment - overturningMoment) / verticalReaction",
-    explanation: `The location of the resultant vertical force is determined by taking moments about the left edge (heel) of the base.`,
+    formula: momentReference === 'toe' 
+      ? "Σ (moments of all loads about the toe) / verticalReaction" 
+      : "baseWidth - Σ (moments of all loads about the toe) / verticalReaction",
+    explanation: isFloating 
+      ? `The vertical reaction is not positive, so the dam floats and the resultant has no meaningful location.` 
+      : `The moments of every vertical and horizontal load about the toe, divided by the vertical reaction, place the resultant where it crosses the base. It is measured from the ${momentReference}${
+        momentReference === 'heel' ? ', so the distance from the toe is subtracted from the base width' : ''
+      }, and sets the eccentricity and base pressures below.`,
     value: locationOfRy,
     unit: lengthUnit
   });
   
+  // Calculate base contact pressure and check the middle third
+  const basePressure = calculateBasePressure(verticalReaction, locationOfRy, modifiedInputs.baseWidth, momentReference);
+  const stressUnit = unitSystem === 'metric' ? 'kN/m²' : 'lb/ft²';
+  
+  calculationSteps.push({
+    title: "Calculate Eccentricity of Resultant",
+    formula: momentReference === 'toe' ? "baseWidth / 2 - locationOfRy" : "locationOfRy - baseWidth / 2",
+    explanation: isFloating 
+      ? `The dam floats, so there is no resultant on the base and no contact pressure.` 
+      : `With the resultant ${formatNumber(locationOfRy)}${lengthUnit} from the ${momentReference}, the eccentricity is measured from the base centre, positive toward the toe. The resultant ${
+        basePressure.eccentricity > 0 
+          ? 'lies on the toe side, so the toe carries the larger stress' 
+          : basePressure.eccentricity < 0 
+            ? 'lies on the heel side, so the heel carries the larger stress' 
+            : 'passes through the centre, so the base pressure is uniform'
+      }.`,
+    value: basePressure.eccentricity,
+    unit: lengthUnit
+  });
+  
+  calculationSteps.push({
+    title: "Calculate Heel Stress",
+    formula: "(verticalReaction / baseWidth) × (1 - 6 × eccentricity / baseWidth)",
+    explanation: `The normal stress at the heel from a linear base pressure distribution.${
+      basePressure.heelStress < 0 ? ' A negative value means tension: the heel tends to lift off its foundation.' : ''
+    }`,
+    value: basePressure.heelStress,
+    unit: stressUnit
+  });
+  
+  calculationSteps.push({
+    title: "Calculate Toe Stress",
+    formula: "(verticalReaction / baseWidth) × (1 + 6 × eccentricity / baseWidth)",
+    explanation: `The normal stress at the toe from a linear base pressure distribution.${
+      basePressure.toeStress < 0 ? ' A negative value means tension: the toe tends to lift off its foundation.' : ''
+    }`,
+    value: basePressure.toeStress,
+    unit: stressUnit
+  });
+  
+  calculationSteps.push({
+    title: "Check Middle Third (Kern)",
+    formula: "|eccentricity| ≤ baseWidth / 6",
+    explanation: basePressure.withinMiddleThird 
+      ? `The eccentricity is within the allowed ${formatNumber(modifiedInputs.baseWidth / 6)}${lengthUnit}, so the resultant lies in the middle third and the whole base is in compression.` 
+      : `The eccentricity exceeds the allowed ${formatNumber(modifiedInputs.baseWidth / 6)}${lengthUnit}, so the resultant lies outside the middle third and part of the base is in tension.`,
+    value: Math.abs(basePressure.eccentricity),
+    unit: lengthUnit
+  });
+  
+  // Calculate principal stresses at the faces by the gravity method
+  const faceStresses = getFaceStressElevations(modifiedInputs).map(elevation => analyzeFaceStresses(modifiedInputs, elevation));
+  const { upstream: heelFace, downstream: toeFace } = faceStresses[0];
+  
+  calculationSteps.push({
+    title: "Calculate Upstream Face Principal Stress",
+    formula: "σz × (1 + tan²φu) - p × tan²φu",
+    explanation: `Without uplift the vertical stress at the heel is σz = ${formatNumber(heelFace.verticalStress)} ${stressUnit} and the reservoir presses on the face with p = ${formatNumber(heelFace.waterPressure)} ${stressUnit}. With the face slope tanφu = ${formatNumber(getFaceProjections(modifiedInputs).upstream / modifiedInputs.height)}, the shear stress is ${formatNumber(heelFace.shearStress)} ${stressUnit} and the principal stresses are ${formatNumber(heelFace.majorPrincipalStress)} and ${formatNumber(heelFace.minorPrincipalStress)} ${stressUnit}.${
+      heelFace.minorPrincipalStress < 0 ? ' A negative principal stress means tension at the upstream face.' : ''
+    }`,
+    value: heelFace.majorPrincipalStress,
+    unit: stressUnit
+  });
+  
+  calculationSteps.push({
+    title: "Calculate Downstream Face Principal Stress",
+    formula: "σz × (1 + tan²φd) - p' × tan²φd",
+    explanation: `Without uplift the vertical stress at the toe is σz = ${formatNumber(toeFace.verticalStress)} ${stressUnit}${
+      toeFace.waterPressure > 0 ? ` and the tailwater presses on the face with p' = ${formatNumber(toeFace.waterPressure)} ${stressUnit}` : ''
+    }. With the face slope tanφd = ${formatNumber(getFaceProjections(modifiedInputs).downstream / modifiedInputs.height)}, the shear stress is ${formatNumber(toeFace.shearStress)} ${stressUnit} and the principal stresses are ${formatNumber(toeFace.majorPrincipalStress)} and ${formatNumber(toeFace.minorPrincipalStress)} ${stressUnit}.`,
+    value: toeFace.majorPrincipalStress,
+    unit: stressUnit
+  });
+  
   // Step 10: Calculate safety factors
   let safetyFactorSliding: number | undefined;
   
+  // Resolve the reactions on an inclined foundation plane (if applicable)
+  const { normal: normalForce, driving: drivingForce } = resolveOnFoundationPlane(
+    verticalReaction, 
+    horizontalReaction, 
+    foundationInclination
+  );
+  
+  if (needsFrictionCalculation && foundationInclination !== 0) {
+    calculationSteps.push({
+      title: "Calculate Normal Force on Foundation Plane",
+      formula: "verticalReaction × cos(α) + horizontalReaction × sin(α)",
+      explanation: `The foundation plane is inclined at α = ${foundationInclination}°, ${
+        foundationInclination > 0 ? 'rising toward the toe' : 'falling toward the toe'
+      }. The reactions are resolved perpendicular to the plane to find the force pressing the dam onto it.`,
+      value: normalForce,
+      unit: forceUnit
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Driving Force along Foundation Plane",
+      formula: "horizontalReaction × cos(α) - verticalReaction × sin(α)",
+      explanation: foundationInclination > 0 
+        ? `The dam has to slide uphill, so part of the vertical reaction opposes the horizontal thrust along the plane.` 
+        : `The plane falls toward the toe, so part of the vertical reaction adds to the horizontal thrust along the plane.`,
+      value: drivingForce,
+      unit: forceUnit
+    });
+  }
+  
   // Only calculate sliding factor if friction coefficient is provided and needed
   if (needsFrictionCalculation && frictionCoefficient !== undefined) {
     safetyFactorSliding = calculateSlidingSafetyFactor(
       verticalReaction, 
       horizontalReaction, 
       frictionCoefficient,
-      needsFrictionCalculation
+      needsFrictionCalculation,
+      foundationInclination
     );
     
     // Add sliding safety factor calculation step
     calculationSteps.push({
       title: "Calculate Factor of Safety against Sliding",
-      formula: "(frictionCoefficient × verticalReaction) / horizontalReaction",
-      explanation: `The sliding safety factor compares the maximum friction force available (using coefficient of friction ${frictionCoefficient}) to the horizontal force trying to push the dam.`,
+      formula: foundationInclination !== 0 
+        ? "(frictionCoefficient × normalForce) / drivingForce" 
+        : "(frictionCoefficient × verticalReaction) / horizontalReaction",
+      explanation: hasSlidingTendency(safetyFactorSliding) 
+        ? `The sliding safety factor compares the maximum friction force available (using coefficient of friction ${frictionCoefficient}) to the ${
+          foundationInclination !== 0 ? 'force driving the dam along the inclined foundation plane' : 'horizontal force trying to push the dam'
+        }.` 
+        : `The ${foundationInclination !== 0 ? 'driving force along the foundation plane' : 'net horizontal force'} is ${formatNumber(drivingForce)} ${forceUnit}, so nothing pushes the dam toward the toe and it has no tendency to slide.`,
       value: safetyFactorSliding!,
+      valueLabel: hasSlidingTendency(safetyFactorSliding) ? undefined : noSlidingLabel,
+      unit: ""
+    });
+  }
+  
+  // Add shear-friction factor when cohesion and friction angle are given
+  let safetyFactorShearFriction: number | undefined;
+  
+  if (needsFrictionCalculation && inputs.foundationFrictionAngle !== undefined) {
+    const cohesion = inputs.cohesion ?? 0;
+    const contactLength = Math.min(inputs.contactLength ?? modifiedInputs.baseWidth, modifiedInputs.baseWidth);
+    safetyFactorShearFriction = calculateShearFrictionFactor(
+      verticalReaction,
+      horizontalReaction,
+      cohesion,
+      inputs.foundationFrictionAngle,
+      contactLength,
+      foundationInclination
+    );
+    
+    calculationSteps.push({
+      title: "Calculate Shear-Friction Factor",
+      formula: foundationInclination !== 0 
+        ? "(cohesion × contactLength / cos(α) + normalForce × tan(φ)) / drivingForce" 
+        : "(cohesion × contactLength + verticalReaction × tan(φ)) / horizontalReaction",
+      explanation: `The shear-friction factor adds the cohesion of the foundation (${cohesion} ${stressUnit}) acting over the compressed contact length of ${formatNumber(contactLength)}${lengthUnit}${
+        foundationInclination !== 0 ? ` (${formatNumber(contactLength / Math.cos(foundationInclination * Math.PI / 180))}${lengthUnit} along the inclined plane)` : ''
+      } to the frictional resistance with φ = ${inputs.foundationFrictionAngle}°.${
+        hasSlidingTendency(safetyFactorShearFriction) ? '' : ' Nothing drives the dam toward the toe, so there is no sliding tendency to resist.'
+      }`,
+      value: safetyFactorShearFriction,
+      valueLabel: hasSlidingTendency(safetyFactorShearFriction) ? undefined : noSlidingLabel,
       unit: ""
     });
   }
@@ -591,24 +2358,281 @@ export const calculateDamStability = (inputs: DamInputs): CalculationResults =>
   calculationSteps.push({
     title: "Calculate Factor of Safety against Overturning",
     formula: "rightingMoment / overturningMoment",
-    explanation: `The overturning safety factor compares the righting moment (RM) to the overturning moment (OM).`,
+    explanation: `The overturning safety factor compares the righting moment (RM) to the overturning moment (OM), both taken about the ${referenceEdge}.${
+      isFloating ? ' Because the dam floats, this ratio does not describe a real rotation about the base.' : ''
+    }`,
     value: safetyFactorOverturning,
     unit: ""
   });
   
+  // Add flotation safety factor step (if there is uplift)
+  const safetyFactorFlotation = calculateFlotationFactor(verticalReaction, hydrostaticUplift);
+  
+  if (safetyFactorFlotation !== undefined) {
+    calculationSteps.push({
+      title: "Calculate Factor of Safety against Flotation",
+      formula: "(verticalReaction + hydrostaticUplift) / hydrostaticUplift",
+      explanation: isFloating 
+        ? `The uplift (${formatNumber(hydrostaticUplift)} ${forceUnit}) is at least as large as the weight of the dam and its surcharges (${formatNumber(verticalReaction + hydrostaticUplift)} ${forceUnit}). The dam floats.` 
+        : `The flotation safety factor compares the weight of the dam and all surcharges (${formatNumber(verticalReaction + hydrostaticUplift)} ${forceUnit}) to the uplift force.`,
+      value: safetyFactorFlotation,
+      unit: ""
+    });
+  }
+  
+  // Step 11: Cracked-base analysis (if requested)
+  let crackedBase: CrackedBaseResults | undefined;
+  
+  if (inputs.crackedBaseAnalysis) {
+    const analysis = analyzeCrackedBase(modifiedInputs);
+    const cracked = analysis.results;
+    
+    // Add one step per iteration so the convergence history is visible
+    analysis.history.forEach((iteration, index) => {
+      calculationSteps.push({
+        title: `Cracked Base Iteration ${index + 1}`,
+        formula: "crackLength = baseWidth - 3 × resultantFromToe",
+        explanation: iteration.verticalReaction <= 0 || iteration.resultantFromToe <= 0 
+          ? `The resultant falls outside the base (Ry = ${formatNumber(iteration.verticalReaction)} ${forceUnit}, ${formatNumber(iteration.resultantFromToe)}${lengthUnit} from the toe), so no compressed length can balance the loads.` 
+          : `With Ry = ${formatNumber(iteration.verticalReaction)} ${forceUnit} acting ${formatNumber(iteration.resultantFromToe)}${lengthUnit} from the toe, the triangular base pressure spreads over ${formatNumber(Math.min(3 * iteration.resultantFromToe, modifiedInputs.baseWidth))}${lengthUnit}. Full reservoir uplift is then applied over the crack and the loads are recomputed.`,
+        value: iteration.crackLength,
+        unit: lengthUnit
+      });
+    });
+    
+    calculationSteps.push({
+      title: "Calculate Compressed Base Length",
+      formula: "baseWidth - crackLength",
+      explanation: !analysis.stable 
+        ? `The crack propagates through the entire base. The section cannot reach equilibrium and is unstable.` 
+        : analysis.crackLength === 0 
+          ? `The resultant lies within the middle third, so the whole base stays in compression and no crack forms.` 
+          : `After ${analysis.history.length} iterations${analysis.converged ? '' : ' (not fully converged)'}, the crack extends ${formatNumber(analysis.crackLength)}${lengthUnit} from the heel and the remaining base is in compression.`,
+      value: analysis.compressedLength,
+      unit: lengthUnit
+    });
+    
+    const crackedFriction = modifiedInputs.frictionCoefficient;
+    const crackedSliding = calculateSlidingSafetyFactor(
+      cracked.verticalReaction,
+      cracked.horizontalReaction,
+      crackedFriction,
+      needsFrictionCalculation,
+      foundationInclination
+    );
+    const crackedOverturning = calculateOverturningFactor(cracked.rightingMoment, cracked.overturningMoment);
+    
+    if (crackedSliding !== undefined) {
+      calculationSteps.push({
+        title: "Calculate Cracked-Base Sliding Factor",
+        formula: foundationInclination !== 0 
+          ? "(frictionCoefficient × crackedNormalForce) / crackedDrivingForce" 
+          : "(frictionCoefficient × crackedVerticalReaction) / horizontalReaction",
+        explanation: analysis.crackLength > 0 
+          ? `The crack uplift reduces the vertical reaction to ${formatNumber(cracked.verticalReaction)} ${forceUnit}, which lowers the available friction.` 
+          : `No crack forms, so the sliding factor is unchanged.`,
+        value: crackedSliding,
+        valueLabel: hasSlidingTendency(crackedSliding) ? undefined : noSlidingLabel,
+        unit: ""
+      });
+    }
+    
+    calculationSteps.push({
+      title: "Calculate Cracked-Base Overturning Factor",
+      formula: "crackedRightingMoment / crackedOverturningMoment",
+      explanation: analysis.crackLength > 0 
+        ? `The overturning factor is recomputed with the uplift moment of the cracked base (${formatNumber(cracked.upliftMoment)} ${momentUnit}).` 
+        : `No crack forms, so the overturning factor is unchanged.`,
+      value: crackedOverturning,
+      unit: ""
+    });
+    
+    crackedBase = {
+      crackLength: analysis.crackLength,
+      compressedLength: analysis.compressedLength,
+      iterations: analysis.history.length,
+      converged: analysis.converged,
+      stable: analysis.stable,
+      verticalReaction: cracked.verticalReaction,
+      safetyFactorSliding: crackedSliding,
+      safetyFactorOverturning: crackedOverturning
+    };
+  }
+  
+  // Step 12: Multi-wedge sliding analysis through a foundation seam (if defined)
+  let wedgeAnalysis: WedgeAnalysisResults | undefined;
+  const wedgeInputs = inputs.wedgeAnalysis;
+  
+  if (wedgeInputs) {
+    const analysis = analyzeSlidingWedges(wedgeInputs, {
+      baseWidth: modifiedInputs.baseWidth,
+      verticalLoad: verticalReaction + hydrostaticUplift,
+      horizontalLoad: horizontalReaction,
+      waterLevel: modifiedInputs.waterLevel,
+      tailwaterLevel,
+      waterUnitWeight: getWaterUnitWeight(modifiedInputs)
+    });
+    
+    let upstreamForce = 0;
+    analysis.wedges.forEach((wedge, index) => {
+      const strength = index === 0 ? wedgeInputs.drivingWedge : wedgeInputs.resistingWedges[index - 1];
+      const received = index > 0 ? `receives ${formatNumber(upstreamForce)} ${forceUnit} from upstream and ` : '';
+      const passed = index === analysis.wedges.length - 1 
+        ? `leaves ${formatNumber(wedge.interwedgeForce)} ${forceUnit} unbalanced at the downstream end` 
+        : `passes ${formatNumber(wedge.interwedgeForce)} ${forceUnit} to the next wedge`;
+      
+      calculationSteps.push({
+        title: `${wedge.label} Equilibrium`,
+        formula: "P(i-1) - P(i) = [W × (sinα + tanφd × cosα) - U × tanφd + cd × L] / (cosα - tanφd × sinα) - H",
+        explanation: `${
+          index === 0 
+            ? `The dam and the rock above the seam (${formatNumber(wedgeInputs.seamDepth)}${lengthUnit} below the toe) weigh ${formatNumber(wedge.weight)} ${forceUnit} and carry ${formatNumber(wedge.horizontalLoad)} ${forceUnit} of horizontal load, including the reservoir pressure on the rock face below the heel.` 
+            : `The rock wedge and the tailwater above it weigh ${formatNumber(wedge.weight)} ${forceUnit}.`
+        } The slip plane is ${formatNumber(wedge.planeLength)}${lengthUnit} long at α = ${wedge.angle}° with c = ${strength.cohesion} ${stressUnit} and φ = ${strength.frictionAngle}°, and carries ${formatNumber(wedge.uplift)} ${forceUnit} of uplift. With the strengths divided by the common factor of safety, the effective normal force is ${formatNumber(wedge.normalForce)} ${forceUnit} and the developed shear resistance is ${formatNumber(wedge.shearResistance)} ${forceUnit}. The wedge ${received}${passed}.`,
+        value: upstreamForce - wedge.interwedgeForce,
+        unit: forceUnit
+      });
+      
+      upstreamForce = wedge.interwedgeForce;
+    });
+    
+    calculationSteps.push({
+      title: "Solve Multi-Wedge Factor of Safety",
+      formula: "Σ (P(i-1) - P(i)) = 0",
+      explanation: analysis.converged 
+        ? `The common factor of safety is the strength reduction at which the interwedge forces balance across all ${analysis.wedges.length} wedges, so no force is left at the downstream end (USACE wedge method).` 
+        : analysis.safetyFactor >= 100 
+          ? `The wedges remain in equilibrium even with the strengths divided by 100, so the factor of safety is reported as 100.` 
+          : `The wedges cannot reach equilibrium even with the strengths multiplied by 100, so the wedge system is unstable.`,
+      value: analysis.safetyFactor,
+      unit: ""
+    });
+    
+    wedgeAnalysis = analysis;
+  }
+  
+  // Step 13: Stability on the construction lift joints (if defined)
+  const jointElevations = getLiftJointElevations(modifiedInputs);
+  const liftJoints = jointElevations.map(elevation => analyzeLiftJoint(modifiedInputs, elevation));
+  
+  liftJoints.forEach(joint => {
+    calculationSteps.push({
+      title: `Check Lift Joint at ${formatNumber(joint.elevation)}${lengthUnit}`,
+      formula: "rightingMoment / overturningMoment of the section above the joint",
+      explanation: joint.verticalReaction <= 0 
+        ? `The section above the joint (${formatNumber(joint.width)}${lengthUnit} long) has no net downward load, so the joint opens completely.` 
+        : `The section above the joint is analysed as a free body with the water, silt and uplift acting at this level. The joint is ${formatNumber(joint.width)}${lengthUnit} long and carries Ry = ${formatNumber(joint.verticalReaction)} ${forceUnit} and Rx = ${formatNumber(joint.horizontalReaction)} ${forceUnit}${
+            joint.safetyFactorSliding === undefined 
+              ? '' 
+              : hasSlidingTendency(joint.safetyFactorSliding) 
+                ? `, giving a sliding factor of ${formatNumber(joint.safetyFactorSliding)}` 
+                : ', with no tendency to slide'
+          }. The resultant acts ${formatNumber(joint.resultantFromHeel)}${lengthUnit} from the upstream face, ${
+            joint.withinMiddleThird ? 'within' : 'outside'
+          } the middle third of the joint.`,
+      value: joint.safetyFactorOverturning,
+      unit: ""
+    });
+  });
+  
+  // Step 14: Plane-strain finite element analysis of the section (if enabled)
+  let finiteElement: FiniteElementResults | undefined;
+  
+  if (inputs.finiteElement) {
+    const comparisonInputs = getFiniteElementComparisonInputs(modifiedInputs);
+    const comparison = analyzeFaceStresses(comparisonInputs, 0);
+    const { upstream, downstream } = getFaceProjections(comparisonInputs);
+    const waterUnitWeight = getWaterUnitWeight(comparisonInputs);
+    const upliftSegments = hydrostaticUplift > 0 ? getUpliftSegments(comparisonInputs) : [];
+    const heelUplift = upliftSegments.length > 0 ? waterUnitWeight * upliftSegments[0].startHead : 0;
+    const toeUplift = upliftSegments.length > 0 ? waterUnitWeight * upliftSegments[upliftSegments.length - 1].endHead : 0;
+    const gravityHeelStress = comparison.upstream.verticalStress - heelUplift;
+    const gravityToeStress = comparison.downstream.verticalStress - toeUplift;
+    finiteElement = {
+      ...analyzeFiniteElement(inputs.finiteElement, {
+        baseWidth: comparisonInputs.baseWidth,
+        height: comparisonInputs.height,
+        upstreamProjection: upstream,
+        downstreamProjection: downstream,
+        concreteUnitWeight: comparisonInputs.concreteDensity,
+        waterLevel: comparisonInputs.waterLevel,
+        tailwaterLevel,
+        waterUnitWeight,
+        crestPressure: waterUnitWeight * calculateNappeWeight(comparisonInputs).depth,
+        heelUplift,
+        toeUplift,
+        unitSystem
+      }),
+      gravityHeelStress,
+      gravityToeStress
+    };
+    
+    const { foundationDepth = 0 } = inputs.finiteElement;
+    const displacementUnit = unitSystem === 'metric' ? 'mm' : 'in';
+    const displacementScale = unitSystem === 'metric' ? 1000 : 12;
+    
+    calculationSteps.push({
+      title: "Solve Finite Element Model",
+      formula: "K × u = f (constant-strain triangles, plane strain)",
+      explanation: `The section is meshed into ${finiteElement.elements.length} triangles with ${finiteElement.nodes.length} nodes${
+        foundationDepth > 0 
+          ? `, including a foundation block ${formatNumber(foundationDepth)}${lengthUnit} deep that extends the same distance beyond heel and toe` 
+          : ', with the base fixed'
+      }. Self weight and water pressure on the faces${
+        foundationDepth > 0 ? ', the crest and the foundation surface' : ' and the crest'
+      } are applied as nodal loads; silt, ice, seismic, wave, anchor, gate and custom loads are left out of the model and of the gravity-method comparison. Uplift acts equally up on the dam and down on the ${
+        foundationDepth > 0 ? 'foundation' : 'support'
+      } across the bonded base, so it does not deform the model and is taken off the contact stresses at the heel and toe. The largest displacement is ${formatNumber(finiteElement.maxDisplacement * displacementScale)} ${displacementUnit}; the value shown is the horizontal crest displacement.`,
+      value: finiteElement.crestDisplacement * displacementScale,
+      unit: displacementUnit
+    });
+    
+    calculationSteps.push({
+      title: "Finite Element Heel Stress",
+      formula: "σy of the concrete elements at the heel - uplift pressure",
+      explanation: `The contact stress is the concrete stress less ${formatNumber(finiteElement.heelUplift)} ${stressUnit} of uplift. The gravity method gives ${formatNumber(gravityHeelStress)} ${stressUnit} at the heel for the same section and loads. The finite element result differs where the stiffness of the base${
+        foundationDepth > 0 ? ' and foundation' : ''
+      } concentrates stress at the corner, which the linear distribution of the rigid-body checks cannot show.`,
+      value: finiteElement.heelStress,
+      unit: stressUnit
+    });
+    
+    calculationSteps.push({
+      title: "Finite Element Toe Stress",
+      formula: "σy of the concrete elements at the toe - uplift pressure",
+      explanation: `The contact stress is the concrete stress less ${formatNumber(finiteElement.toeUplift)} ${stressUnit} of uplift. The gravity method gives ${formatNumber(gravityToeStress)} ${stressUnit} at the toe for the same section and loads.`,
+      value: finiteElement.toeStress,
+      unit: stressUnit
+    });
+  }
+  
   return {
     selfWeight,
     hydrostaticUplift,
     hydrostaticPressure,
+    hydrodynamicPressure: hydrodynamicPressure > 0 ? hydrodynamicPressure : undefined,
+    overtoppingDepth: overtoppingDepth > 0 ? overtoppingDepth : undefined,
+    nappeWeight: nappeWeight > 0 ? nappeWeight : undefined,
     verticalReaction,
     horizontalReaction,
     rightingMoment,
     overturningMoment,
     locationOfRy,
     safetyFactorSliding,
+    safetyFactorShearFriction,
     safetyFactorOverturning,
+    safetyFactorFlotation,
+    isFloating,
     calculationSteps,
     solvedParameter,
+    basePressure,
+    crackedBase,
+    wedgeAnalysis,
+    liftJoints: liftJoints.length > 0 ? liftJoints : undefined,
+    faceStresses,
+    finiteElement,
+    seepage,
+    weirCreep,
     massMeasurements: {
       selfWeightMass,
       massUnit
@@ -621,8 +2645,14 @@ export const formatNumber = (num: number): string => {
   return num.toFixed(2);
 };
 
+// Helper to join a list of terms into a readable sentence fragment
+const formatList = (items: string[]): string => {
+  if (items.length <= 1) return items.join('');
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+};
+
 // Evaluate safety factor status
-export const evaluateSafetyStatus = (factor: number): 'safe' | 'warning' | 'danger' => {
+export const evaluateSafetyStatus = (factor: number): SafetyStatus => {
   if (factor >= 1.5) return 'safe';
   if (factor >= 1.0) return 'warning';
   return 'danger';
@@ -0,0 +1,386 @@
+import { FiniteElementInputs, FiniteElementNode, FiniteElementResults, FiniteElementStress } from './types';
+
+// Dam section and loads the stability engine passes to the finite element model
+export interface FiniteElementSection {
+  baseWidth: number;
+  height: number;
+  upstreamProjection: number; // Horizontal projection of the upstream face
+  downstreamProjection: number; // Horizontal projection of the downstream face
+  concreteUnitWeight: number;
+  waterLevel: number;
+  tailwaterLevel: number;
+  waterUnitWeight: number;
+  crestPressure: number; // Weight of the nappe on an overtopped crest, per unit area
+  heelUplift: number; // Uplift pressure at the heel
+  toeUplift: number; // Uplift pressure at the toe
+  unitSystem: 'metric' | 'imperial';
+}
+
+type Material = 'concrete' | 'foundation';
+
+interface Mesh {
+  nodes: { x: number; y: number }[];
+  elements: { nodes: [number, number, number]; material: Material }[];
+  upstreamFace: number[]; // From the heel up to the crest
+  downstreamFace: number[]; // From the crest down to the toe
+  crest: number[]; // From the upstream to the downstream edge of the crest, empty for a pointed top
+  baseNodes: number[]; // From the toe back to the heel
+  upstreamSurface: number[]; // Foundation surface from its upstream edge to the heel
+  downstreamSurface: number[]; // Foundation surface from the toe to its downstream edge
+  fixedX: Set<number>;
+  fixedY: Set<number>;
+}
+
+// Rows of the dam mesh are limited so slender sections stay solvable in the browser
+const maxRowsPerDivision = 4;
+
+// The foundation block is limited the same way, so a deep foundation under a narrow base
+// gets coarser elements rather than an unbounded band matrix
+const maxSideColumns = 20;
+const maxFoundationRows = 20;
+
+// Convert a modulus in GPa or ksi to the stress unit of the engine (kN/m² or lb/ft²)
+const toStressUnits = (modulus: number, unitSystem: 'metric' | 'imperial'): number => {
+  return unitSystem === 'metric' ? modulus * 1e6 : modulus * 144000;
+};
+
+// Split the strip between two node rows into triangles, counterclockwise
+// A row with a single node is the apex of a triangular section, so the strip below it becomes a fan.
+const connectRows = (
+  lower: number[],
+  upper: number[],
+  material: Material,
+  elements: Mesh['elements']
+) => {
+  for (let j = 0; j < lower.length - 1; j++) {
+    if (upper.length === 1) {
+      elements.push({ nodes: [lower[j], lower[j + 1], upper[0]], material });
+    } else {
+      elements.push({ nodes: [lower[j], lower[j + 1], upper[j + 1]], material });
+      elements.push({ nodes: [lower[j], upper[j + 1], upper[j]], material });
+    }
+  }
+};
+
+// Mesh the foundation block (if any) and the dam section with rows of nodes, numbered from the bottom up
+// Row-by-row numbering keeps the stiffness matrix banded.
+const buildMesh = (section: FiniteElementSection, divisions: number, foundationDepth: number): Mesh => {
+  const { baseWidth, height, upstreamProjection, downstreamProjection } = section;
+  const nodes: Mesh['nodes'] = [];
+  const elements: Mesh['elements'] = [];
+  const fixedX = new Set<number>();
+  const fixedY = new Set<number>();
+  const addNode = (x: number, y: number): number => nodes.push({ x, y }) - 1;
+  
+  const elementSize = baseWidth / divisions;
+  const baseX = Array.from({ length: divisions + 1 }, (_, j) => j * elementSize);
+  
+  let baseRow: number[];
+  let upstreamSurface: number[] = [];
+  let downstreamSurface: number[] = [];
+  
+  if (foundationDepth > 0) {
+    // The block extends foundationDepth beyond heel and toe; its bottom is fixed and its sides are on rollers
+    const sideColumns = Math.min(Math.max(Math.round(foundationDepth / elementSize), 1), maxSideColumns);
+    const depthRows = Math.min(Math.max(Math.round(foundationDepth / elementSize), 1), maxFoundationRows);
+    const sideWidth = foundationDepth / sideColumns;
+    const columnX = [
+      ...Array.from({ length: sideColumns }, (_, c) => -foundationDepth + c * sideWidth),
+      ...baseX,
+      ...Array.from({ length: sideColumns }, (_, c) => baseWidth + (c + 1) * sideWidth)
+    ];
+    
+    let previous: number[] = [];
+    for (let r = 0; r <= depthRows; r++) {
+      const y = -foundationDepth + r * foundationDepth / depthRows;
+      const row = columnX.map(x => addNode(x, y));
+      
+      if (r === 0) row.forEach(node => fixedY.add(node));
+      fixedX.add(row[0]);
+      fixedX.add(row[row.length - 1]);
+      
+      if (r > 0) connectRows(previous, row, 'foundation', elements);
+      previous = row;
+    }
+    
+    baseRow = previous.slice(sideColumns, sideColumns + divisions + 1);
+    upstreamSurface = previous.slice(0, sideColumns + 1);
+    downstreamSurface = previous.slice(sideColumns + divisions);
+  } else {
+    // Without a foundation block the dam is fixed along its base
+    baseRow = baseX.map(x => addNode(x, 0));
+    baseRow.forEach(node => {
+      fixedX.add(node);
+      fixedY.add(node);
+    });
+  }
+  
+  // Dam rows between the faces, which move in linearly with height
+  const rows = Math.min(Math.max(Math.round(height / elementSize), 1), maxRowsPerDivision * divisions);
+  const upstreamFace = [baseRow[0]];
+  const downstreamFace = [baseRow[baseRow.length - 1]];
+  
+  let previous = baseRow;
+  for (let i = 1; i <= rows; i++) {
+    const y = i * height / rows;
+    const upstreamX = upstreamProjection * y / height;
+    const width = baseWidth - downstreamProjection * y / height - upstreamX;
+    const row = width > baseWidth * 1e-9
+      ? Array.from({ length: divisions + 1 }, (_, j) => addNode(upstreamX + j * width / divisions, y))
+      : [addNode(upstreamX, y)];
+    
+    connectRows(previous, row, 'concrete', elements);
+    upstreamFace.push(row[0]);
+    downstreamFace.push(row[row.length - 1]);
+    previous = row;
+  }
+  
+  return {
+    nodes,
+    elements,
+    upstreamFace,
+    downstreamFace: downstreamFace.reverse(),
+    crest: previous.length > 1 ? previous : [],
+    baseNodes: [...baseRow].reverse(),
+    upstreamSurface,
+    downstreamSurface,
+    fixedX,
+    fixedY
+  };
+};
+
+// Plane-strain elasticity matrix relating [εx, εy, γxy] to [σx, σy, τxy] (tension positive)
+const getElasticityMatrix = (modulus: number, poissonRatio: number): number[][] => {
+  const factor = modulus / ((1 + poissonRatio) * (1 - 2 * poissonRatio));
+  return [
+    [factor * (1 - poissonRatio), factor * poissonRatio, 0],
+    [factor * poissonRatio, factor * (1 - poissonRatio), 0],
+    [0, 0, factor * (1 - 2 * poissonRatio) / 2]
+  ];
+};
+
+// Strain-displacement matrix and area of a constant-strain triangle
+const getStrainMatrix = (points: { x: number; y: number }[]): { strain: number[][]; area: number } => {
+  const [p1, p2, p3] = points;
+  const twiceArea = (p2.x - p1.x) * (p3.y - p1.y) - (p3.x - p1.x) * (p2.y - p1.y);
+  const b = [p2.y - p3.y, p3.y - p1.y, p1.y - p2.y].map(value => value / twiceArea);
+  const c = [p3.x - p2.x, p1.x - p3.x, p2.x - p1.x].map(value => value / twiceArea);
+  
+  return {
+    strain: [
+      [b[0], 0, b[1], 0, b[2], 0],
+      [0, c[0], 0, c[1], 0, c[2]],
+      [c[0], b[0], c[1], b[1], c[2], b[2]]
+    ],
+    area: twiceArea / 2
+  };
+};
+
+// Element stiffness k = A × Bᵀ × D × B for unit thickness
+const getElementStiffness = (strain: number[][], elasticity: number[][], area: number): number[][] => {
+  const stressMatrix = elasticity.map(row =>
+    strain[0].map((_, col) => row.reduce((sum, value, k) => sum + value * strain[k][col], 0))
+  );
+  return strain[0].map((_, i) =>
+    strain[0].map((_, j) => area * strain.reduce((sum, row, k) => sum + row[i] * stressMatrix[k][j], 0))
+  );
+};
+
+// Add the consistent nodal forces of a linearly varying pressure on a boundary edge
+// The edge runs with the solid on its right, so the pressure pushes along the right-hand normal.
+const applyEdgePressure = (
+  forces: Float64Array,
+  nodes: Mesh['nodes'],
+  start: number,
+  end: number,
+  startPressure: number,
+  endPressure: number
+) => {
+  const dx = nodes[end].x - nodes[start].x;
+  const dy = nodes[end].y - nodes[start].y;
+  const startShare = (2 * startPressure + endPressure) / 6;
+  const endShare = (startPressure + 2 * endPressure) / 6;
+  
+  forces[2 * start] += startShare * dy;
+  forces[2 * start + 1] -= startShare * dx;
+  forces[2 * end] += endShare * dy;
+  forces[2 * end + 1] -= endShare * dx;
+};
+
+// Solve K × u = f for a symmetric positive definite banded matrix by Cholesky factorisation
+// The upper band is stored row by row: band[i × (bandwidth + 1) + (j - i)] holds K(i, j) for j ≥ i.
+const solveBanded = (band: Float64Array, forces: Float64Array, size: number, bandwidth: number): Float64Array => {
+  const width = bandwidth + 1;
+  const at = (i: number, j: number): number => i * width + (j - i);
+  
+  for (let i = 0; i < size; i++) {
+    let diagonal = band[at(i, i)];
+    for (let k = Math.max(0, i - bandwidth); k < i; k++) {
+      diagonal -= band[at(k, i)] * band[at(k, i)];
+    }
+    if (diagonal <= 0) throw new Error('Finite element model is not stable - check the supports and materials');
+    band[at(i, i)] = Math.sqrt(diagonal);
+    
+    for (let j = i + 1; j <= Math.min(size - 1, i + bandwidth); j++) {
+      let value = band[at(i, j)];
+      for (let k = Math.max(0, j - bandwidth); k < i; k++) {
+        value -= band[at(k, i)] * band[at(k, j)];
+      }
+      band[at(i, j)] = value / band[at(i, i)];
+    }
+  }
+  
+  // Forward substitution with Uᵀ, then back substitution with U
+  const result = new Float64Array(forces);
+  for (let i = 0; i < size; i++) {
+    for (let k = Math.max(0, i - bandwidth); k < i; k++) {
+      result[i] -= band[at(k, i)] * result[k];
+    }
+    result[i] /= band[at(i, i)];
+  }
+  for (let i = size - 1; i >= 0; i--) {
+    for (let j = i + 1; j <= Math.min(size - 1, i + bandwidth); j++) {
+      result[i] -= band[at(i, j)] * result[j];
+    }
+    result[i] /= band[at(i, i)];
+  }
+  
+  return result;
+};
+
+// Run a linear-elastic plane-strain analysis of the section with constant-strain triangles
+// Loads are the concrete self weight, the reservoir and tailwater pressure on the faces and on the
+// foundation surface, and the nappe on an overtopped crest. The foundation block is weightless, as its own weight acted before the dam was built.
+// The base is a bonded interface: uplift pushes the dam up and the foundation (or the support) down by
+// the same amount, so it moves nothing and only reduces the contact stress the interface carries.
+export const analyzeFiniteElement = (
+  settings: FiniteElementInputs,
+  section: FiniteElementSection
+): FiniteElementResults => {
+  const { unitSystem, waterLevel, tailwaterLevel, waterUnitWeight, crestPressure, heelUplift, toeUplift } = section;
+  const divisions = Math.max(Math.round(settings.divisions), 1);
+  const foundationDepth = settings.foundationDepth ?? 0;
+  const mesh = buildMesh(section, divisions, foundationDepth);
+  const { nodes } = mesh;
+  const size = 2 * nodes.length;
+  
+  const elasticity: Record<Material, number[][]> = {
+    concrete: getElasticityMatrix(toStressUnits(settings.elasticModulus, unitSystem), settings.poissonRatio),
+    foundation: getElasticityMatrix(
+      toStressUnits(settings.foundationModulus ?? settings.elasticModulus, unitSystem),
+      settings.foundationPoissonRatio ?? settings.poissonRatio
+    )
+  };
+  
+  // Assemble the banded stiffness matrix and the self weight
+  const bandwidth = mesh.elements.reduce(
+    (max, element) => Math.max(max, 2 * (Math.max(...element.nodes) - Math.min(...element.nodes)) + 1),
+    0
+  );
+  const band = new Float64Array(size * (bandwidth + 1));
+  const forces = new Float64Array(size);
+  
+  const elementData = mesh.elements.map(element => {
+    const { strain, area } = getStrainMatrix(element.nodes.map(node => nodes[node]));
+    const stiffness = getElementStiffness(strain, elasticity[element.material], area);
+    const dofs = element.nodes.flatMap(node => [2 * node, 2 * node + 1]);
+    
+    dofs.forEach((row, i) => {
+      dofs.forEach((col, j) => {
+        if (col >= row) band[row * (bandwidth + 1) + (col - row)] += stiffness[i][j];
+      });
+    });
+    
+    if (element.material === 'concrete') {
+      element.nodes.forEach(node => {
+        forces[2 * node + 1] -= section.concreteUnitWeight * area / 3;
+      });
+    }
+    
+    return { strain, dofs };
+  });
+  
+  // Water pressure on the faces, the crest and the foundation surface on either side
+  const reservoirPressure = (y: number): number => waterUnitWeight * Math.max(waterLevel - y, 0);
+  const tailwaterPressure = (y: number): number => waterUnitWeight * Math.max(tailwaterLevel - y, 0);
+  const applyAlong = (path: number[], pressure: (y: number) => number) => {
+    for (let i = 0; i < path.length - 1; i++) {
+      const start = path[i];
+      const end = path[i + 1];
+      applyEdgePressure(forces, nodes, start, end, pressure(nodes[start].y), pressure(nodes[end].y));
+    }
+  };
+  
+  applyAlong(mesh.upstreamFace, reservoirPressure);
+  applyAlong(mesh.downstreamFace, tailwaterPressure);
+  applyAlong(mesh.crest, () => crestPressure);
+  applyAlong(mesh.upstreamSurface, reservoirPressure);
+  applyAlong(mesh.downstreamSurface, tailwaterPressure);
+  
+  // Supported degrees of freedom keep a unit diagonal and no load
+  const supported = [
+    ...[...mesh.fixedX].map(node => 2 * node),
+    ...[...mesh.fixedY].map(node => 2 * node + 1)
+  ];
+  supported.forEach(dof => {
+    for (let k = Math.max(0, dof - bandwidth); k < dof; k++) band[k * (bandwidth + 1) + (dof - k)] = 0;
+    for (let k = 1; k <= bandwidth; k++) band[dof * (bandwidth + 1) + k] = 0;
+    band[dof * (bandwidth + 1)] = 1;
+    forces[dof] = 0;
+  });
+  
+  const displacements = solveBanded(band, forces, size, bandwidth);
+  
+  const resultNodes: FiniteElementNode[] = nodes.map((node, index) => ({
+    x: node.x,
+    y: node.y,
+    displacementX: displacements[2 * index],
+    displacementY: displacements[2 * index + 1]
+  }));
+  
+  // Element stresses, turned to compression positive
+  const elements: FiniteElementStress[] = mesh.elements.map((element, index) => {
+    const { strain, dofs } = elementData[index];
+    const strains = strain.map(row => row.reduce((sum, value, k) => sum + value * displacements[dofs[k]], 0));
+    const [stressX, stressY, shearStress] = elasticity[element.material].map(row =>
+      -row.reduce((sum, value, k) => sum + value * strains[k], 0)
+    );
+    const centre = (stressX + stressY) / 2;
+    const radius = Math.sqrt(Math.pow((stressX - stressY) / 2, 2) + Math.pow(shearStress, 2));
+    
+    return {
+      nodes: element.nodes,
+      material: element.material,
+      stressX,
+      stressY,
+      shearStress,
+      majorPrincipalStress: centre + radius,
+      minorPrincipalStress: centre - radius
+    };
+  });
+  
+  // Heel and toe stresses come from the concrete elements touching those corners of the base,
+  // less the uplift that the water in the interface carries
+  const heel = mesh.baseNodes[mesh.baseNodes.length - 1];
+  const toe = mesh.baseNodes[0];
+  const cornerStress = (corner: number, uplift: number): number => {
+    const touching = elements.filter(element => element.material === 'concrete' && element.nodes.includes(corner));
+    return touching.reduce((sum, element) => sum + element.stressY, 0) / touching.length - uplift;
+  };
+  
+  const crest = resultNodes[mesh.upstreamFace[mesh.upstreamFace.length - 1]];
+  
+  return {
+    nodes: resultNodes,
+    elements,
+    crestDisplacement: crest.displacementX,
+    maxDisplacement: resultNodes.reduce(
+      (max, node) => Math.max(max, Math.sqrt(Math.pow(node.displacementX, 2) + Math.pow(node.displacementY, 2))),
+      0
+    ),
+    heelStress: cornerStress(heel, heelUplift),
+    toeStress: cornerStress(toe, toeUplift),
+    heelUplift,
+    toeUplift
+  };
+};
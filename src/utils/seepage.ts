@@ -0,0 +1,161 @@
+import { SeepageInputs, SeepageResults } from './types';
+
+// Water levels the seepage solution is scaled to by the stability engine
+export interface SeepageSection {
+  waterLevel: number;
+  tailwaterLevel: number;
+}
+
+// Normalised solution: 1 at the reservoir boundary, 0 at the tailwater boundary and the drains
+export interface SeepagePotential {
+  baseProfile: { distance: number; ratio: number }[]; // Potential along the base from heel to toe
+  unitDischarge: number; // Inflow per unit length for a unit head difference
+  converged: boolean;
+  iterations: number;
+}
+
+const baseDivisions = 20;
+const maxSideColumns = 60;
+const minRows = 4;
+const maxRows = 40;
+const maxIterations = 20000;
+const tolerance = 1e-6;
+
+// Solve the steady seepage (Laplace) equation kx × ∂²h/∂x² + ky × ∂²h/∂y² = 0 by finite differences
+// The grid spans the pervious layer from one foundationDepth upstream of the heel to one downstream of
+// the toe. The reservoir and tailwater beds are fixed heads, the base of the dam, the impervious layer
+// and the far ends are no-flow boundaries, and the cutoff wall blocks horizontal flow down to its tip.
+// Each node balances the flow from its neighbours (finite volumes on the node grid), solved by SOR.
+export const solveSeepagePotential = (seepage: SeepageInputs, baseWidth: number): SeepagePotential => {
+  const { foundationDepth, permeability, anisotropyRatio = 1, cutoffDepth = 0, cutoffPosition = 0, drainPositions = [] } = seepage;
+  const horizontalPermeability = permeability;
+  const verticalPermeability = permeability / anisotropyRatio;
+  
+  // Grid lines: uniform under the base, graded to the same spacing on either side where possible
+  const spacing = baseWidth / baseDivisions;
+  const sideColumns = Math.min(Math.max(Math.round(foundationDepth / spacing), 1), maxSideColumns);
+  const sideWidth = foundationDepth / sideColumns;
+  const columnX = [
+    ...Array.from({ length: sideColumns }, (_, i) => -foundationDepth + i * sideWidth),
+    ...Array.from({ length: baseDivisions + 1 }, (_, i) => i * spacing),
+    ...Array.from({ length: sideColumns }, (_, i) => baseWidth + (i + 1) * sideWidth)
+  ];
+  const rows = Math.min(Math.max(Math.round(foundationDepth / spacing), minRows), maxRows);
+  const rowSpacing = foundationDepth / rows;
+  const columns = columnX.length;
+  const heelColumn = sideColumns;
+  const toeColumn = sideColumns + baseDivisions;
+  const index = (i: number, j: number): number => j * columns + i;
+  
+  // Fixed potentials on the bed: reservoir up to the heel, tailwater from the toe, drains in between
+  const fixed = new Map<number, number>();
+  for (let i = 0; i <= heelColumn; i++) fixed.set(index(i, 0), 1);
+  for (let i = toeColumn; i < columns; i++) fixed.set(index(i, 0), 0);
+  drainPositions
+    .filter(position => position > 0 && position < baseWidth)
+    .forEach(position => {
+      const column = heelColumn + Math.min(Math.max(Math.round(position / spacing), 1), baseDivisions - 1);
+      fixed.set(index(column, 0), 0);
+    });
+  
+  // The cutoff wall sits between the grid lines on either side of its position
+  const cutoffColumn = cutoffDepth > 0
+    ? heelColumn + Math.min(Math.floor(cutoffPosition / spacing), baseDivisions - 1)
+    : -1;
+  
+  // Conductance between neighbouring nodes, with half cells on the boundaries
+  const cellHeight = (j: number): number => (j === 0 || j === rows ? rowSpacing / 2 : rowSpacing);
+  const cellWidth = (i: number): number =>
+    ((i > 0 ? columnX[i] - columnX[i - 1] : 0) + (i < columns - 1 ? columnX[i + 1] - columnX[i] : 0)) / 2;
+  const eastConductance = (i: number, j: number): number => {
+    if (i >= columns - 1) return 0;
+    if (i === cutoffColumn && j * rowSpacing < cutoffDepth) return 0;
+    return horizontalPermeability * cellHeight(j) / (columnX[i + 1] - columnX[i]);
+  };
+  const southConductance = (i: number, j: number): number =>
+    j >= rows ? 0 : verticalPermeability * cellWidth(i) / rowSpacing;
+  
+  // Start from a linear drop beneath the base
+  const potential = new Float64Array(columns * (rows + 1));
+  for (let j = 0; j <= rows; j++) {
+    for (let i = 0; i < columns; i++) {
+      potential[index(i, j)] = fixed.get(index(i, j))
+        ?? Math.min(Math.max(1 - columnX[i] / baseWidth, 0), 1);
+    }
+  }
+  
+  // Near-optimal over-relaxation for a Laplace grid of this size
+  const relaxation = 2 / (1 + Math.sin(Math.PI / Math.max(columns, rows + 1)));
+  let converged = false;
+  let iterations = 0;
+  
+  while (iterations < maxIterations) {
+    let maxChange = 0;
+    
+    for (let j = 0; j <= rows; j++) {
+      for (let i = 0; i < columns; i++) {
+        const node = index(i, j);
+        if (fixed.has(node)) continue;
+        
+        const east = eastConductance(i, j);
+        const west = i > 0 ? eastConductance(i - 1, j) : 0;
+        const south = southConductance(i, j);
+        const north = j > 0 ? southConductance(i, j - 1) : 0;
+        const total = east + west + south + north;
+        if (total === 0) continue;
+        
+        const balanced = (
+          (east > 0 ? east * potential[index(i + 1, j)] : 0)
+          + (west > 0 ? west * potential[index(i - 1, j)] : 0)
+          + (south > 0 ? south * potential[index(i, j + 1)] : 0)
+          + (north > 0 ? north * potential[index(i, j - 1)] : 0)
+        ) / total;
+        const change = relaxation * (balanced - potential[node]);
+        
+        potential[node] += change;
+        maxChange = Math.max(maxChange, Math.abs(change));
+      }
+    }
+    
+    iterations++;
+    if (maxChange < tolerance) {
+      converged = true;
+      break;
+    }
+  }
+  
+  // Flow entering through the reservoir bed
+  let unitDischarge = 0;
+  for (let i = 0; i <= heelColumn; i++) {
+    const node = index(i, 0);
+    unitDischarge += eastConductance(i, 0) * (potential[node] - potential[index(i + 1, 0)])
+      + (i > 0 ? eastConductance(i - 1, 0) * (potential[node] - potential[index(i - 1, 0)]) : 0)
+      + southConductance(i, 0) * (potential[node] - potential[index(i, 1)]);
+  }
+  
+  const baseProfile = Array.from({ length: baseDivisions + 1 }, (_, i) => ({
+    distance: columnX[heelColumn + i],
+    ratio: potential[index(heelColumn + i, 0)]
+  }));
+  
+  return { baseProfile, unitDischarge, converged, iterations };
+};
+
+// Get the uplift profile along the base and the seepage discharge per unit length
+// The heads are linear in the pool and tailwater levels, so the normalised potential solved for the
+// foundation geometry is scaled between the tailwater and the pool.
+export const analyzeSeepage = (potential: SeepagePotential, section: SeepageSection): SeepageResults => {
+  const { waterLevel, tailwaterLevel } = section;
+  const { baseProfile, unitDischarge, converged, iterations } = potential;
+  const headDifference = waterLevel - tailwaterLevel;
+  
+  return {
+    upliftProfile: baseProfile.map(point => ({
+      distance: point.distance,
+      head: tailwaterLevel + point.ratio * headDifference
+    })),
+    discharge: unitDischarge * headDifference,
+    converged,
+    iterations
+  };
+};
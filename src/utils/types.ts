@@ -8,51 +8,330 @@ export type WaterDensityUnit = "kN/m³" | "kg/m³";
 // Mass units
 export type MassUnit = "kg" | "lb";
 
+// Point about which moments are taken
+export type MomentReference = 'heel' | 'toe';
+
 // Input data types
 export interface DamInputs {
   structureType: StructureType;
   baseWidth: number;
   height: number;
   waterLevel: number;
+  reservoirDepth?: number; // Full pool depth when the section is the free body above a lift joint, defaults to waterLevel
   crestWidth?: number; // Only for trapezoid
   concreteDensity: number;
   waterDensity: number;
   waterDensityUnit: WaterDensityUnit;
   frictionCoefficient?: number; // Optional
+  cohesion?: number; // Optional foundation cohesion for shear-friction (kN/m² or lb/ft²)
+  foundationFrictionAngle?: number; // Foundation friction angle in degrees for shear-friction
+  contactLength?: number; // Effective compressed base length, defaults to the base width
+  foundationInclination?: number; // Foundation plane angle in degrees, positive when it rises toward the toe
+  wedgeAnalysis?: WedgeAnalysisInputs; // Optional multi-wedge sliding analysis through a foundation seam
+  finiteElement?: FiniteElementInputs; // Optional plane-strain finite element analysis of the section
   heelUplift?: number; // Optional
   toeUplift?: number; // Optional
+  drainDistance?: number; // Optional distance of the foundation drain line from the heel
+  drainEfficiency?: number; // Drain efficiency in percent (0-100)
+  crackedBaseAnalysis?: boolean; // Iterate on heel crack length when the resultant leaves the middle third
+  liftJointElevations?: number[]; // Optional construction lift joint heights above the base
+  liftJointSpacing?: number; // Optional uniform lift height, adds a joint at every multiple below the crest
+  tailwaterLevel?: number; // Optional water depth on the downstream side
+  siltDepth?: number; // Optional depth of sediment deposited against the upstream face
+  siltUnitWeight?: number; // Submerged unit weight of the sediment
+  siltFrictionAngle?: number; // Internal friction angle of the sediment in degrees
+  siltPressureCoefficient?: number; // Rankine coefficient, overrides the friction angle when given
+  iceLoad?: number; // Optional ice thrust as a line load (kN/m or lb/ft)
+  iceDepth?: number; // Depth of the ice load below the pool surface
+  upliftProfile?: UpliftProfilePoint[]; // Optional piezometer readings, replacing the heel, toe and drain heads
+  seepage?: SeepageInputs; // Optional foundation seepage model, replacing all other uplift inputs
+  weirFoundation?: WeirFoundationInputs; // Optional weir floor on a permeable foundation, uplift by Khosla's method
+  anchors?: AnchorRow[]; // Optional post-tensioned foundation anchor rows
+  gateType?: GateType; // Optional spillway crest gate carried by the monolith
+  gateHeight?: number; // Height of the gate leaf above the sill
+  gateSillElevation?: number; // Sill height above the base, at or above the crest (defaults to the crest)
+  gateRadius?: number; // Skin plate radius of a radial gate
+  trunnionDistance?: number; // Trunnion pin distance from the heel
+  trunnionElevation?: number; // Trunnion pin height above the base
+  gateBayWidth?: number; // Width of the gate bay between piers
+  monolithWidth?: number; // Width of the monolith along the axis, one gate bay plus its pier
+  customLoads?: CustomLoad[]; // Optional user-defined point and distributed loads
+  horizontalSeismicCoefficient?: number; // Optional pseudo-static coefficient kh
+  verticalSeismicCoefficient?: number; // Optional pseudo-static coefficient kv (acting upward)
+  fetchLength?: number; // Optional wind fetch over the reservoir (km or miles)
+  windSpeed?: number; // Wind speed (km/h or mph)
+  windDuration?: number; // Wind duration in hours, limits wave growth when short
   unitSystem: 'metric' | 'imperial';
+  momentReference?: MomentReference; // Point moments are taken about, defaults to the heel
   solveFor?: 'none' | 'waterLevel' | 'baseWidth' | 'frictionCoefficient'; // What to solve for
   targetSafetyFactor?: number; // Target safety factor when solving for an unknown
   needsFrictionCalculation: boolean; // Flag to indicate if friction calculation is needed
 }
 
+// Spillway crest gate forms
+export type GateType = 'radial' | 'verticalLift';
+
+// Wedge bounded by a slip plane through the foundation
+export interface SlidingWedge {
+  angle: number; // Slip plane angle in degrees, positive when it rises toward the toe
+  length?: number; // Horizontal length of a resisting wedge (the driving wedge spans the base)
+  cohesion: number; // Cohesion along the slip plane (kN/m² or lb/ft²)
+  frictionAngle: number; // Friction angle along the slip plane in degrees
+}
+
+export interface WedgeAnalysisInputs {
+  seamDepth: number; // Depth of the slip plane below the base at the toe
+  rockUnitWeight: number; // Unit weight of the foundation rock (kN/m³ or lb/ft³)
+  drivingWedge: SlidingWedge; // The dam and the rock between its base and the seam
+  resistingWedges: SlidingWedge[]; // Passive rock wedges downstream of the toe, in order
+}
+
+// Finite element model settings
+export interface FiniteElementInputs {
+  elasticModulus: number; // Concrete modulus of elasticity (GPa or ksi)
+  poissonRatio: number;
+  divisions: number; // Number of elements across the base
+  foundationDepth?: number; // Depth of the foundation block and its extent beyond heel and toe; the base is fixed without it
+  foundationModulus?: number; // Foundation modulus of elasticity (GPa or ksi)
+  foundationPoissonRatio?: number;
+}
+
+// Pervious foundation for the seepage model
+export interface SeepageInputs {
+  foundationDepth: number; // Depth of the pervious layer above an impervious boundary
+  permeability: number; // Horizontal permeability (m/s or ft/s)
+  anisotropyRatio?: number; // Horizontal to vertical permeability, defaults to 1
+  cutoffDepth?: number; // Depth of an impervious cutoff wall below the base
+  cutoffPosition?: number; // Distance of the cutoff wall from the heel
+  drainPositions?: number[]; // Distances of foundation drains from the heel, relieved to tailwater
+}
+
+// Soil classes for the creep and exit gradient limits
+export type WeirSoilClass = 'fineSand' | 'coarseSand' | 'gravelSand' | 'boulders';
+
+// Sheet pile line below a weir floor
+export interface SheetPile {
+  position: number; // Distance from the heel, negative under the upstream floor
+  depth: number; // Depth below the top of the floor
+}
+
+// Impervious weir floor on a permeable foundation
+export interface WeirFoundationInputs {
+  upstreamFloorLength: number; // Floor upstream of the heel
+  downstreamFloorLength: number; // Floor downstream of the toe
+  floorThickness?: number; // Floor thickness for Khosla's thickness correction
+  sheetPiles: SheetPile[];
+  soilClass: WeirSoilClass;
+}
+
+export interface UpliftProfilePoint {
+  distance: number; // Distance from the heel
+  head: number; // Measured pressure head (m or ft of water)
+}
+
+// Post-tensioned anchor row, per unit length of dam
+export interface AnchorRow {
+  force: number; // Anchor force per unit length (kN/m or lb/ft)
+  inclination: number; // Degrees from vertical, leaning upstream so the horizontal component resists sliding
+  position: number; // Distance from the heel where the anchor crosses the base
+}
+
+export type CustomLoadType = 'point' | 'distributed';
+
+export interface CustomLoad {
+  label: string; // e.g. crest roadway, crane, bridge pier, gate hoist
+  type: CustomLoadType;
+  magnitude: number; // Point force (kN/m or lb/ft), or intensity per unit length along a distributed load
+  angle: number; // Direction in degrees from vertical (downward), positive toward the toe
+  x: number; // Distance from the heel to the point of application, or to the start of a distributed load
+  y: number; // Height above the base of the point of application, or of the start of a distributed load
+  endX?: number; // Distance from the heel to the end of a distributed load
+  endY?: number; // Height above the base of the end of a distributed load
+}
+
 // Results data types
 export interface CalculationResults {
   selfWeight: number;
   hydrostaticUplift: number;
   hydrostaticPressure: number;
+  hydrodynamicPressure?: number; // Westergaard reservoir force, only with a horizontal seismic coefficient
+  overtoppingDepth?: number; // Depth of the pool above the crest, only when the dam is overtopped
+  nappeWeight?: number; // Weight of the overflow on the crest
   verticalReaction: number;
   horizontalReaction: number;
   rightingMoment: number;
   overturningMoment: number;
   locationOfRy: number;
   safetyFactorSliding?: number; // Optional as it might not be calculated
+  safetyFactorShearFriction?: number; // (c·A + V·tanφ) / H, only with cohesion and friction angle
   safetyFactorOverturning: number;
+  safetyFactorFlotation?: number; // Only when there is uplift
+  isFloating: boolean; // Uplift exceeds the stabilising weight, so moments are not meaningful
   calculationSteps: CalculationStep[];
   solvedParameter?: { name: string; value: number }; // For when solving for an unknown parameter
+  basePressure: BasePressureResults;
+  crackedBase?: CrackedBaseResults; // Only when cracked-base analysis is requested
+  wedgeAnalysis?: WedgeAnalysisResults; // Only when a multi-wedge analysis is defined
+  liftJoints?: LiftJointResult[]; // Only when lift joints are defined, ordered from the base up
+  faceStresses: FaceStressSection[]; // Gravity-method stresses at the faces, ordered from the base up
+  finiteElement?: FiniteElementResults; // Only when the finite element analysis is enabled
+  seepage?: SeepageResults; // Only when the foundation seepage model is used
+  weirCreep?: WeirCreepResults; // Only when a weir foundation is defined
   massMeasurements: {
     selfWeightMass: number;
     massUnit: MassUnit;
   }; // For displaying mass equivalents (no longer optional)
 }
 
+// Safety status shared by safety factors and checks
+export type SafetyStatus = 'safe' | 'warning' | 'danger';
+
+// Base contact pressure and middle-third (kern) check
+export interface BasePressureResults {
+  resultantFromHeel: number;
+  eccentricity: number; // Positive toward the toe
+  heelStress: number;
+  toeStress: number;
+  withinMiddleThird: boolean;
+  status: SafetyStatus;
+}
+
+// Cracked-base analysis results
+export interface CrackedBaseResults {
+  crackLength: number;
+  compressedLength: number;
+  iterations: number;
+  converged: boolean;
+  stable: boolean; // False when no compressed length can balance the loads
+  verticalReaction: number;
+  safetyFactorSliding?: number;
+  safetyFactorOverturning: number;
+}
+
+// Stability of the section above one horizontal lift joint
+export interface LiftJointResult {
+  elevation: number; // Height of the joint above the base
+  width: number; // Joint length from the upstream to the downstream face
+  verticalReaction: number;
+  horizontalReaction: number;
+  safetyFactorSliding?: number;
+  safetyFactorOverturning: number;
+  resultantFromHeel: number; // Measured from the upstream face at the joint
+  withinMiddleThird: boolean;
+  status: SafetyStatus;
+}
+
+// Gravity-method stresses at one face of a horizontal section (compression positive)
+export interface FaceStressResults {
+  verticalStress: number; // Normal stress on the horizontal plane, without uplift
+  waterPressure: number; // Water pressure acting on the face
+  shearStress: number; // Shear on the horizontal plane at the face
+  horizontalStress: number;
+  majorPrincipalStress: number;
+  minorPrincipalStress: number;
+}
+
+// Face stresses on a horizontal section through the dam
+export interface FaceStressSection {
+  elevation: number; // Height of the section above the base
+  width: number;
+  upstream: FaceStressResults;
+  downstream: FaceStressResults;
+}
+
+// Finite element node with its displacement (x from the heel toward the toe, y up from the base)
+export interface FiniteElementNode {
+  x: number;
+  y: number;
+  displacementX: number;
+  displacementY: number;
+}
+
+// Constant-strain triangle with its stresses (compression positive, as in the rigid-body checks)
+export interface FiniteElementStress {
+  nodes: [number, number, number];
+  material: 'concrete' | 'foundation';
+  stressX: number;
+  stressY: number;
+  shearStress: number;
+  majorPrincipalStress: number;
+  minorPrincipalStress: number;
+}
+
+// Plane-strain finite element analysis results
+export interface FiniteElementResults {
+  nodes: FiniteElementNode[];
+  elements: FiniteElementStress[];
+  crestDisplacement: number; // Horizontal displacement of the crest at the upstream face
+  maxDisplacement: number;
+  heelStress: number; // Contact stress at the heel: vertical stress in the concrete less the uplift
+  toeStress: number; // Contact stress at the toe
+  heelUplift: number; // Uplift pressure at the heel
+  toeUplift: number; // Uplift pressure at the toe
+  gravityHeelStress?: number; // Gravity-method contact stress at the heel for the same section and loads
+  gravityToeStress?: number; // Gravity-method contact stress at the toe for the same section and loads
+}
+
+// Seepage model results
+export interface SeepageResults {
+  upliftProfile: UpliftProfilePoint[]; // Pressure head along the base from heel to toe
+  discharge: number; // Seepage per unit length of dam (m³/s per m or ft³/s per ft)
+  converged: boolean;
+  iterations: number;
+}
+
+// Khosla's residual pressures at the key points of one sheet pile, in percent of the head
+export interface KhoslaPilePressures {
+  position: number;
+  depth: number;
+  pressureE: number; // Upstream face at the floor
+  pressureD: number; // Pile tip
+  pressureC: number; // Downstream face at the floor
+}
+
+// Bligh, Lane and Khosla checks for a weir on a permeable foundation
+export interface WeirCreepResults {
+  head: number; // Head difference across the weir
+  floorLength: number;
+  blighCreepLength: number;
+  blighRatio: number;
+  blighCoefficient: number; // Minimum creep ratio for the soil class
+  laneCreepLength: number;
+  laneRatio: number;
+  laneCoefficient: number;
+  piles: KhoslaPilePressures[];
+  exitGradient: number; // Infinite without a sheet pile at the downstream end of the floor
+  allowableExitGradient: number;
+  upliftProfile: UpliftProfilePoint[]; // Uplift head under the base from heel to toe
+}
+
+// Equilibrium of one wedge at the solved factor of safety
+export interface WedgeResult {
+  label: string;
+  angle: number;
+  weight: number; // Total vertical load including rock and surcharges
+  horizontalLoad: number; // Net external horizontal load toward the toe
+  uplift: number; // Uplift on the slip plane
+  planeLength: number;
+  normalForce: number; // Effective normal force on the slip plane
+  shearResistance: number; // Developed shear resistance
+  interwedgeForce: number; // Horizontal force passed to the next wedge downstream
+}
+
+// Multi-wedge sliding analysis results (USACE wedge method)
+export interface WedgeAnalysisResults {
+  safetyFactor: number;
+  converged: boolean;
+  wedges: WedgeResult[];
+}
+
 // Step-by-step calculation explanation
 export interface CalculationStep {
   title: string;
   formula: string;
   explanation: string;
   value: number;
+  valueLabel?: string; // Shown instead of the value when no finite number applies
   unit?: string;
   alternateValue?: number; // For displaying in alternate units
   alternateUnit?: string;
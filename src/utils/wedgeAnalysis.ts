@@ -0,0 +1,174 @@
+import { WedgeAnalysisInputs, WedgeAnalysisResults, WedgeResult } from './types';
+
+// Loads the dam structure passes to the driving wedge
+export interface WedgeDamLoads {
+  baseWidth: number;
+  verticalLoad: number; // All vertical loads on the dam except the uplift on its base
+  horizontalLoad: number; // Net horizontal load on the dam toward the toe
+  waterLevel: number;
+  tailwaterLevel: number;
+  waterUnitWeight: number;
+}
+
+// External loads and geometry of one wedge
+interface WedgeLoads {
+  label: string;
+  angle: number;
+  weight: number;
+  horizontalLoad: number;
+  uplift: number;
+  planeLength: number;
+  cohesion: number;
+  frictionAngle: number;
+}
+
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+// Build the driving wedge and the resisting wedges from the seam geometry
+// Depths are measured below the base level; the slip plane is linear within each wedge.
+const buildWedges = (analysis: WedgeAnalysisInputs, dam: WedgeDamLoads): WedgeLoads[] => {
+  const { seamDepth, rockUnitWeight, drivingWedge, resistingWedges } = analysis;
+  const { baseWidth, verticalLoad, horizontalLoad, waterLevel, tailwaterLevel, waterUnitWeight } = dam;
+  
+  // Driving wedge: the dam plus the rock block between its base and the seam
+  // The plane reaches seamDepth at the toe and rises toward the toe when its angle is positive
+  const drivingAngle = toRadians(drivingWedge.angle);
+  const heelDepth = Math.max(seamDepth + baseWidth * Math.tan(drivingAngle), 0);
+  const drivingRockArea = baseWidth * (heelDepth + seamDepth) / 2;
+  
+  // Full reservoir head acts at the upstream end of the seam, tailwater head at the downstream end
+  const drivingPlaneLength = baseWidth / Math.cos(drivingAngle);
+  const heelHead = waterLevel + heelDepth;
+  const toeHead = tailwaterLevel + seamDepth;
+  
+  const wedges: WedgeLoads[] = [{
+    label: 'Driving Wedge',
+    angle: drivingWedge.angle,
+    weight: verticalLoad + rockUnitWeight * drivingRockArea,
+    horizontalLoad: horizontalLoad + waterUnitWeight * (Math.pow(waterLevel + heelDepth, 2) - Math.pow(waterLevel, 2)) / 2,
+    uplift: waterUnitWeight * drivingPlaneLength * (heelHead + toeHead) / 2,
+    planeLength: drivingPlaneLength,
+    cohesion: drivingWedge.cohesion,
+    frictionAngle: drivingWedge.frictionAngle
+  }];
+  
+  // Resisting wedges: rock downstream of the toe, loaded by tailwater on their surface
+  let startDepth = seamDepth;
+  
+  resistingWedges.forEach((wedge, index) => {
+    const angle = toRadians(wedge.angle);
+    const length = wedge.length ?? 0;
+    
+    // A plane that daylights before the end of the wedge is cut off at the surface
+    const daylightLength = angle > 0 ? startDepth / Math.tan(angle) : Infinity;
+    const effectiveLength = Math.min(length, daylightLength);
+    const endDepth = Math.max(startDepth - effectiveLength * Math.tan(angle), 0);
+    const planeLength = effectiveLength / Math.cos(angle);
+    
+    wedges.push({
+      label: `Resisting Wedge ${index + 1}`,
+      angle: wedge.angle,
+      weight: rockUnitWeight * effectiveLength * (startDepth + endDepth) / 2
+        + waterUnitWeight * tailwaterLevel * effectiveLength,
+      horizontalLoad: 0,
+      uplift: waterUnitWeight * planeLength * (2 * tailwaterLevel + startDepth + endDepth) / 2,
+      planeLength,
+      cohesion: wedge.cohesion,
+      frictionAngle: wedge.frictionAngle
+    });
+    
+    startDepth = endDepth;
+  });
+  
+  return wedges;
+};
+
+// Net horizontal force a wedge needs for limiting equilibrium at a factor of safety (EM 1110-2-2200)
+// ΔH = [W × (sinα + tanφd × cosα) - U × tanφd + cd × L] / (cosα - tanφd × sinα)
+// Returns Infinity when the denominator vanishes, i.e. the factor of safety is too low for this wedge.
+const getRequiredHorizontalForce = (wedge: WedgeLoads, safetyFactor: number): number => {
+  const angle = toRadians(wedge.angle);
+  const tanPhiD = Math.tan(toRadians(wedge.frictionAngle)) / safetyFactor;
+  const cohesionD = wedge.cohesion / safetyFactor;
+  const denominator = Math.cos(angle) - tanPhiD * Math.sin(angle);
+  
+  if (denominator <= 0) return Infinity;
+  
+  return (wedge.weight * (Math.sin(angle) + tanPhiD * Math.cos(angle))
+    - wedge.uplift * tanPhiD
+    + cohesionD * wedge.planeLength) / denominator;
+};
+
+// Sum of the interwedge force differences; zero when the whole system is in limiting equilibrium
+const getEquilibriumImbalance = (wedges: WedgeLoads[], safetyFactor: number): number => {
+  return wedges.reduce(
+    (sum, wedge) => sum + getRequiredHorizontalForce(wedge, safetyFactor) - wedge.horizontalLoad,
+    0
+  );
+};
+
+// Solve for the common factor of safety of all wedges by bisection
+// The imbalance decreases as the factor of safety grows, so the root is bracketed between the limits.
+export const analyzeSlidingWedges = (
+  analysis: WedgeAnalysisInputs,
+  dam: WedgeDamLoads
+): WedgeAnalysisResults => {
+  const wedges = buildWedges(analysis, dam);
+  const maxIterations = 100;
+  const tolerance = 0.0001;
+  
+  let low = 0.01;
+  let high = 100;
+  let converged = false;
+  
+  if (getEquilibriumImbalance(wedges, high) > 0) {
+    // Even a factor of safety of 100 leaves the wedges stable
+    low = high;
+  } else if (getEquilibriumImbalance(wedges, low) < 0) {
+    // The wedges are unstable even with almost no strength reduction
+    high = low;
+  } else {
+    for (let i = 0; i < maxIterations; i++) {
+      const mid = (low + high) / 2;
+      
+      if (getEquilibriumImbalance(wedges, mid) > 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+      
+      if (high - low < tolerance) {
+        converged = true;
+        break;
+      }
+    }
+  }
+  
+  const safetyFactor = (low + high) / 2;
+  
+  // Report each wedge's equilibrium at the solved factor of safety
+  let interwedgeForce = 0;
+  const results: WedgeResult[] = wedges.map(wedge => {
+    const angle = toRadians(wedge.angle);
+    const requiredForce = getRequiredHorizontalForce(wedge, safetyFactor);
+    const normalForce = wedge.weight * Math.cos(angle) + requiredForce * Math.sin(angle) - wedge.uplift;
+    const shearResistance = normalForce * Math.tan(toRadians(wedge.frictionAngle)) / safetyFactor
+      + wedge.cohesion * wedge.planeLength / safetyFactor;
+    
+    interwedgeForce = wedge.horizontalLoad + interwedgeForce - requiredForce;
+    
+    return {
+      label: wedge.label,
+      angle: wedge.angle,
+      weight: wedge.weight,
+      horizontalLoad: wedge.horizontalLoad,
+      uplift: wedge.uplift,
+      planeLength: wedge.planeLength,
+      normalForce,
+      shearResistance,
+      interwedgeForce
+    };
+  });
+  
+  return { safetyFactor, converged, wedges: results };
+};
@@ -0,0 +1,159 @@
+import { WeirFoundationInputs, WeirCreepResults, WeirSoilClass, KhoslaPilePressures, UpliftProfilePoint } from './types';
+
+// Water levels and base width the creep analysis needs from the stability engine
+export interface WeirSection {
+  baseWidth: number;
+  waterLevel: number;
+  tailwaterLevel: number;
+}
+
+// Safe creep coefficients (Bligh's C, Lane's weighted C) and allowable exit gradients
+// after Bligh (1910), Lane (1935) and CBIP Publication 12 (Khosla, Bose and Taylor, 1936)
+export const weirSoilLimits: Record<WeirSoilClass, { label: string; bligh: number; lane: number; exitGradient: number }> = {
+  fineSand: { label: 'Fine sand', bligh: 15, lane: 7, exitGradient: 1 / 7 },
+  coarseSand: { label: 'Coarse sand', bligh: 12, lane: 5, exitGradient: 1 / 6 },
+  gravelSand: { label: 'Gravel and sand', bligh: 9, lane: 3.5, exitGradient: 1 / 5 },
+  boulders: { label: 'Boulders, gravel and sand', bligh: 5, lane: 2.5, exitGradient: 1 / 4 }
+};
+
+// Piles closer than this to the end of the floor are treated as end piles
+const endTolerance = 1e-6;
+
+// Convert a cosine from Khosla's solution to a residual pressure in percent of the head
+const toPercent = (cosine: number): number => Math.acos(Math.min(Math.max(cosine, -1), 1)) * 100 / Math.PI;
+
+// Khosla's independent variable solution for a single pile below a thin floor of length b
+// φE = (1/π) × acos((λ2 - 1) / λ1), φD = (1/π) × acos(λ2 / λ1), φC = (1/π) × acos((λ2 + 1) / λ1)
+// where λ1,2 = (√(1 + α1²) ± √(1 + α2²)) / 2 and αi = bi / d. End piles follow with b1 or b2 = 0.
+const getPilePressures = (
+  upstreamLength: number,
+  downstreamLength: number,
+  depth: number
+): { pressureE: number; pressureD: number; pressureC: number } => {
+  const upstreamTerm = Math.sqrt(1 + Math.pow(upstreamLength / depth, 2));
+  const downstreamTerm = Math.sqrt(1 + Math.pow(downstreamLength / depth, 2));
+  const lambda1 = (upstreamTerm + downstreamTerm) / 2;
+  const lambda2 = (upstreamTerm - downstreamTerm) / 2;
+  
+  return {
+    pressureE: toPercent((lambda2 - 1) / lambda1),
+    pressureD: toPercent(lambda2 / lambda1),
+    pressureC: toPercent((lambda2 + 1) / lambda1)
+  };
+};
+
+// Correction for the interference of a neighbouring pile of depth D at a distance b' on a pile of depth d
+// C = 19 × √(D / b') × (d + D) / b, in percent of the head
+const getInterference = (depth: number, neighbourDepth: number, spacing: number, floorLength: number): number =>
+  spacing > 0 ? 19 * Math.sqrt(neighbourDepth / spacing) * (depth + neighbourDepth) / floorLength : 0;
+
+// Cut the floor profile at the heel and the toe of the dam
+// Where a pile sits at the heel or the toe, the pressure under the base is the one on the dam side.
+const clipToBase = (points: UpliftProfilePoint[], baseWidth: number): UpliftProfilePoint[] => {
+  const headAt = (distance: number, fromRight: boolean): number => {
+    const index = fromRight
+      ? points.findIndex(point => point.distance > distance)
+      : points.findIndex(point => point.distance >= distance);
+    if (index === -1) return points[points.length - 1].head;
+    if (index === 0) return points[0].head;
+    
+    const previous = points[index - 1];
+    const next = points[index];
+    const span = next.distance - previous.distance;
+    return span > 0 ? previous.head + (next.head - previous.head) * (distance - previous.distance) / span : next.head;
+  };
+  
+  return [
+    { distance: 0, head: headAt(0, true) },
+    ...points.filter(point => point.distance > 0 && point.distance < baseWidth),
+    { distance: baseWidth, head: headAt(baseWidth, false) }
+  ];
+};
+
+// Check the creep length and exit gradient of a weir floor and get the uplift it puts on the base
+// Positions are measured from the heel, so the floor runs from -upstreamFloorLength to
+// baseWidth + downstreamFloorLength. Pressures are residual heads in percent of the head difference.
+export const analyzeWeirCreep = (weir: WeirFoundationInputs, section: WeirSection): WeirCreepResults => {
+  const { upstreamFloorLength, downstreamFloorLength, floorThickness = 0, soilClass } = weir;
+  const { baseWidth, waterLevel, tailwaterLevel } = section;
+  const limits = weirSoilLimits[soilClass];
+  const head = Math.max(waterLevel - tailwaterLevel, 0);
+  const floorStart = -upstreamFloorLength;
+  const floorEnd = baseWidth + downstreamFloorLength;
+  const floorLength = floorEnd - floorStart;
+  const sheetPiles = weir.sheetPiles
+    .filter(pile => pile.depth > 0 && pile.position >= floorStart && pile.position <= floorEnd)
+    .sort((a, b) => a.position - b.position);
+  
+  // Bligh: every part of the path counts equally, down and up each pile
+  // Lane: horizontal creep counts for a third of vertical creep
+  const verticalCreep = sheetPiles.reduce((sum, pile) => sum + 2 * pile.depth, 0);
+  const blighCreepLength = floorLength + verticalCreep;
+  const laneCreepLength = floorLength / 3 + verticalCreep;
+  
+  // Pressures at the key points of each pile on its own
+  const piles: KhoslaPilePressures[] = sheetPiles.map(pile => ({
+    position: pile.position,
+    depth: pile.depth,
+    ...getPilePressures(pile.position - floorStart, floorEnd - pile.position, pile.depth)
+  }));
+  
+  // Corrections for the neighbouring piles and the floor thickness
+  // Interference raises the pressure downstream of a pile and lowers it upstream of the next one.
+  // The thin-floor solution applies at the top of the floor, so E and C are interpolated towards D.
+  // The outer faces of end piles stay at the full head and at zero.
+  const isUpstreamEnd = (position: number): boolean => position - floorStart <= endTolerance * floorLength;
+  const isDownstreamEnd = (position: number): boolean => floorEnd - position <= endTolerance * floorLength;
+  const corrected = piles.map((pile, index) => {
+    const previous = piles[index - 1];
+    const next = piles[index + 1];
+    const thicknessRatio = Math.min(floorThickness / pile.depth, 1);
+    const pressureE = pile.pressureE
+      - (previous ? getInterference(pile.depth, previous.depth, pile.position - previous.position, floorLength) : 0);
+    const pressureC = pile.pressureC
+      + (next ? getInterference(pile.depth, next.depth, next.position - pile.position, floorLength) : 0);
+    
+    return {
+      ...pile,
+      pressureE: isUpstreamEnd(pile.position)
+        ? 100
+        : Math.min(Math.max(pressureE + (pile.pressureD - pressureE) * thicknessRatio, 0), 100),
+      pressureC: isDownstreamEnd(pile.position)
+        ? 0
+        : Math.min(Math.max(pressureC + (pile.pressureD - pressureC) * thicknessRatio, 0), 100)
+    };
+  });
+  
+  // Exit gradient GE = (H / d) × 1 / (π × √λ), λ = (1 + √(1 + α²)) / 2, α = b / d
+  // It needs a pile at the downstream end of the floor; without one the gradient is unbounded.
+  const endPile = sheetPiles.find(pile => isDownstreamEnd(pile.position));
+  const exitGradient = endPile
+    ? head / endPile.depth / (Math.PI * Math.sqrt((1 + Math.sqrt(1 + Math.pow(floorLength / endPile.depth, 2))) / 2))
+    : head > 0 ? Infinity : 0;
+  
+  // Residual pressure along the floor: full head at the upstream end, the key points of each pile,
+  // nothing at the downstream end, and a linear variation in between
+  const floorPoints = [
+    ...(corrected.some(pile => isUpstreamEnd(pile.position)) ? [] : [{ distance: floorStart, pressure: 100 }]),
+    ...corrected.flatMap(pile => [
+      { distance: pile.position, pressure: pile.pressureE },
+      { distance: pile.position, pressure: pile.pressureC }
+    ]),
+    ...(endPile ? [] : [{ distance: floorEnd, pressure: 0 }])
+  ].map(point => ({ distance: point.distance, head: tailwaterLevel + point.pressure / 100 * head }));
+  
+  return {
+    head,
+    floorLength,
+    blighCreepLength,
+    blighRatio: head > 0 ? blighCreepLength / head : Infinity,
+    blighCoefficient: limits.bligh,
+    laneCreepLength,
+    laneRatio: head > 0 ? laneCreepLength / head : Infinity,
+    laneCoefficient: limits.lane,
+    piles: corrected,
+    exitGradient,
+    allowableExitGradient: limits.exitGradient,
+    upliftProfile: clipToBase(floorPoints, baseWidth)
+  };
+};